@@ -1,71 +1,123 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
-import { Mode, Project, Message, Role, MessageType, ImageSettings, ChatSession, ModeType } from './types';
-import { MODES, MOCK_PROJECTS } from './constants';
-import { sendMessageToGemini } from './services/geminiService';
-import { loadSessions, saveSession, downloadSessionAsTxt, deleteSession } from './services/historyService';
+import ProjectDialog, { ProjectDialogState } from './components/ProjectDialog';
+import MemoryPanel from './components/MemoryPanel';
+import MemoryReviewPanel from './components/MemoryReviewPanel';
+import { Mode, StorageWarning, Project, ProjectMemory, MemoryProposal, Message, Role, MessageType, ImageSettings, ChatSession, Attachment, ContextCompaction, ProjectBundle, BundleImportStrategy, RetrievedExcerpt, PromptSnapshot } from './types';
+import { MODES } from './constants';
+import { sendMessageToGemini, buildProviderRequest, buildSystemInstruction, excludeFailedTurns } from './services/geminiService';
+import { compactIfNeeded } from './services/contextService';
+import { findBranchPoints, forkAt, switchBranch } from './services/branchService';
+import { dataUrlMimeType, extensionFor } from './services/imageService';
+import { proposeMemoryUpdates, applyMemoryProposals, isCurrentProposal, mergeMemoryProposals } from './services/memoryExtractionService';
+import { currentMemoryVersion } from './services/memoryHistoryService';
+import { retrievePastExcerpts } from './services/retrievalService';
+import { retrieveKnowledge, deleteProjectKnowledge } from './services/knowledgeService';
+import { downloadProjectBundle, findBundleConflict, importProjectBundle, parseProjectBundle } from './services/bundleService';
+import { downloadSessions, importSessions, parseSessionArchive } from './services/exportService';
+import { describeError, toProviderError } from './services/errors';
+import { onStorageWarning } from './services/storageService';
+import { sweepRetention, loadTrash, saveSession, deleteSession, restoreSession, purgeTrash, setSessionPinned, setSessionArchived, releaseProjectSessions } from './services/historyService';
+import { loadProjects, createProject, updateProject, duplicateProject, setProjectArchived, deleteProject, commitMemory, rollbackMemory } from './services/projectService';
 
 function App() {
   const [currentMode, setMode] = useState<Mode>(MODES[0]);
   const [currentProject, setProject] = useState<Project | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // Active branch
+  const [branches, setBranches] = useState<Message[]>([]); // Inactive branches of the current session
+  const [compaction, setCompaction] = useState<ContextCompaction | undefined>(undefined);
   const [isTyping, setIsTyping] = useState(false);
+  const [progressNote, setProgressNote] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
+  // Project Management
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectDialog, setProjectDialog] = useState<ProjectDialogState | null>(null);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const [memoryFocusVersion, setMemoryFocusVersion] = useState<number | undefined>();
+  const [memoryProposals, setMemoryProposals] = useState<MemoryProposal[]>([]);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  // Proposals for the active project made against its current memory; the rest are stale or belong to another project
+  const pendingProposals = currentProject ? memoryProposals.filter(p => isCurrentProposal(p, currentProject)) : [];
+
   // Session Management
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [trash, setTrash] = useState<ChatSession[]>([]);
+  const [storageWarning, setStorageWarning] = useState<StorageWarning | null>(null);
 
   // Custom Cursor Logic
   const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
 
+  const applySessions = (updated: ChatSession[]) => {
+    setSessions(updated);
+    setTrash(loadTrash());
+  };
+
+  // Apply session retention on startup and whenever the active project changes
+  useEffect(() => {
+    applySessions(sweepRetention());
+  }, [currentProject?.id]);
+
   // Init
   useEffect(() => {
-    // Load History
-    const loaded = loadSessions();
-    setSessions(loaded);
+    // Load Projects (sessions are loaded by the retention sweep below)
+    setProjects(loadProjects());
 
     // Cursor tracking
     const moveCursor = (e: MouseEvent) => {
       setCursorPos({ x: e.clientX, y: e.clientY });
     };
     window.addEventListener('mousemove', moveCursor);
-    return () => window.removeEventListener('mousemove', moveCursor);
+    const unsubscribe = onStorageWarning(setStorageWarning);
+    return () => {
+      window.removeEventListener('mousemove', moveCursor);
+      unsubscribe();
+    };
   }, []);
 
-  // Update session in storage whenever messages change
+  // Update session in storage whenever messages change (deferred while a response streams in)
   useEffect(() => {
-    if (currentSessionId && messages.length > 0) {
+    if (currentSessionId && messages.length > 0 && !isTyping) {
         const sessionToUpdate = sessions.find(s => s.id === currentSessionId);
         if (sessionToUpdate) {
             const updatedSession: ChatSession = {
                 ...sessionToUpdate,
                 messages: messages,
+                branches: branches.length > 0 ? branches : undefined,
                 modeId: currentMode.id,
-                projectId: currentProject?.id || null
+                projectId: currentProject?.id || null,
+                compaction
             };
             const updatedList = saveSession(updatedSession);
-            setSessions(updatedList);
+            applySessions(updatedList);
         }
     }
-  }, [messages, currentSessionId, currentMode, currentProject]);
+  }, [messages, branches, currentSessionId, currentMode, currentProject, isTyping, compaction]);
+
+  const handleSendMessage = async (text: string, attachments: Attachment[], imageSettings?: ImageSettings) => {
+    setFocusMessageId(null);
 
-  const handleSendMessage = async (text: string, attachments: any[], imageSettings?: ImageSettings) => {
     // 1. Session Initialization (if first message)
     let activeSessionId = currentSessionId;
     if (!activeSessionId) {
         const newId = Date.now().toString();
+        const titleSource = text || attachments[0]?.name || 'Untitled';
         const newSession: ChatSession = {
             id: newId,
-            title: text.length > 30 ? text.substring(0, 30) + '...' : text,
+            title: titleSource.length > 30 ? titleSource.substring(0, 30) + '...' : titleSource,
             lastModified: Date.now(),
             messages: [],
             modeId: currentMode.id,
             projectId: currentProject?.id || null
         };
         const updatedSessions = saveSession(newSession);
-        setSessions(updatedSessions);
+        applySessions(updatedSessions);
         setCurrentSessionId(newId);
         activeSessionId = newId;
     }
@@ -77,59 +129,370 @@ function App() {
       content: text,
       type: MessageType.TEXT,
       timestamp: Date.now(),
-      attachments: attachments
+      attachments: attachments,
+      parentId: messages[messages.length - 1]?.id
     };
     
     setMessages(prev => [...prev, userMsg]);
+    await requestModelResponse(messages, userMsg, imageSettings);
+  };
+
+  /**
+   * Retrieves past-session excerpts and knowledge chunks relevant to the prompt.
+   * Memoized so the context gauge only re-runs retrieval when its inputs change.
+   */
+  const gatherTurnContext = useCallback((query: string) => ({
+    recalled: currentProject ? retrievePastExcerpts(sessions, currentProject.id, currentSessionId, query) : [],
+    knowledge: currentProject ? retrieveKnowledge(currentProject.id, currentMode.id, query) : []
+  }), [sessions, currentProject, currentSessionId, currentMode.id]);
+
+  /**
+   * Snapshot of the request the next send would make, for "preview before send".
+   */
+  const buildPromptPreview = (text: string, attachments: Attachment[], imageSettings?: ImageSettings): PromptSnapshot =>
+    buildProviderRequest(messages, currentMode, currentProject, text, attachments, {
+      imageSettings,
+      compaction,
+      ...gatherTurnContext(text)
+    }).snapshot;
+
+  /**
+   * Runs one model turn for `userMsg` on top of `history`, streaming into a new model message.
+   * Failures are stored as MessageType.ERROR messages, which never go back to the model.
+   * `baseCompaction` overrides the current compaction when the history just changed branch.
+   */
+  const requestModelResponse = async (history: Message[], userMsg: Message, imageSettings?: ImageSettings, baseCompaction = compaction) => {
     setIsTyping(true);
 
-    // 3. Call API
-    const response = await sendMessageToGemini(messages, currentMode, currentProject, text, attachments, imageSettings);
+    const aiMsgId = (Date.now() + 1).toString();
+    const memoryVersion = currentProject ? currentMemoryVersion(currentProject) : undefined;
+    const { recalled, knowledge } = gatherTurnContext(userMsg.content);
+    let prompt: PromptSnapshot | undefined;
+    const upsertAiMessage = (patch: Partial<Message>) => {
+      setMessages(prev => {
+        const exists = prev.some(m => m.id === aiMsgId);
+        if (exists) return prev.map(m => m.id === aiMsgId ? { ...m, ...patch } : m);
+        return [...prev, { id: aiMsgId, role: Role.MODEL, content: '', type: MessageType.TEXT, timestamp: Date.now(), parentId: userMsg.id, memoryVersion, recalled: recalled.length ? recalled : undefined, knowledge: knowledge.length ? knowledge : undefined, prompt, ...patch }];
+      });
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      // Fold old turns into a summary before they overflow the model's context window
+      const activeCompaction = await compactIfNeeded(
+        currentMode,
+        buildSystemInstruction(currentMode, currentProject, { recalled, knowledge }),
+        excludeFailedTurns(history),
+        userMsg.attachments || [],
+        baseCompaction,
+        { prompt: userMsg.content, onProgress: setProgressNote, signal: controller.signal }
+      );
+      setCompaction(activeCompaction);
 
-    setIsTyping(false);
+      const turnOptions = { imageSettings, compaction: activeCompaction, recalled, knowledge };
+      prompt = buildProviderRequest(history, currentMode, currentProject, userMsg.content, userMsg.attachments, turnOptions).snapshot;
+
+      const response = await sendMessageToGemini(history, currentMode, currentProject, userMsg.content, userMsg.attachments, {
+        ...turnOptions,
+        onProgress: setProgressNote,
+        onChunk: (chunk) => upsertAiMessage({ content: chunk.text, reasoning: chunk.reasoning }),
+        signal: controller.signal
+      });
+
+      // Stopped before any output: keep no empty reply (it would be sent back as an empty turn)
+      if (response.interrupted && !response.text && !response.reasoning && !response.images?.length) {
+        setMessages(prev => prev.filter(m => m.id !== aiMsgId));
+        return;
+      }
+
+      upsertAiMessage({
+        content: response.text,
+        type: response.images ? MessageType.IMAGE : MessageType.TEXT,
+        timestamp: Date.now(),
+        attachments: response.images ? response.images.map((img, i) => {
+          const type = dataUrlMimeType(img);
+          return { type, data: img, name: `generated_${i + 1}.${extensionFor(type)}` };
+        }) : [],
+        groundingMetadata: response.groundingMetadata,
+        reasoning: response.reasoning,
+        interrupted: response.interrupted
+      });
+
+      if (currentProject?.autoExtractMemory && !response.interrupted && response.text) {
+        const reply: Message = { id: aiMsgId, role: Role.MODEL, content: response.text, type: MessageType.TEXT, timestamp: Date.now() };
+        runMemoryExtraction([...history, userMsg, reply], false);
+      }
+    } catch (e) {
+      const error = toProviderError(e, currentMode.provider);
+      upsertAiMessage({
+        content: `${describeError(error.kind)}\n\n\`${error.message}\``,
+        type: MessageType.ERROR,
+        timestamp: Date.now(),
+        reasoning: undefined,
+        error: error.toInfo()
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsTyping(false);
+      setProgressNote(null);
+    }
+  };
 
-    // 4. Add AI Response
-    const aiMsg: Message = {
-      id: (Date.now() + 1).toString(),
-      role: Role.MODEL,
-      content: response.text,
-      type: response.images ? MessageType.IMAGE : MessageType.TEXT,
+  const handleRetry = async (errorMessageId: string, imageSettings?: ImageSettings) => {
+    const index = messages.findIndex(m => m.id === errorMessageId);
+    const userMsg = messages[index - 1];
+    if (index < 1 || userMsg.role !== Role.USER || isTyping) return;
+
+    // Drop the failed reply and re-run the same prompt on the history that preceded it
+    setMessages(messages.slice(0, index));
+    await requestModelResponse(messages.slice(0, index - 1), userMsg, imageSettings);
+  };
+
+  /**
+   * A compaction only applies while the message it summarizes through is still on the active branch.
+   */
+  const compactionFor = (path: Message[]) =>
+    compaction && path.some(m => m.id === compaction.throughMessageId) ? compaction : undefined;
+
+  /**
+   * Re-sends an edited user message. The original message and everything after it are kept as an inactive branch.
+   */
+  const handleEditMessage = async (messageId: string, text: string, imageSettings?: ImageSettings) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (index < 0 || original.role !== Role.USER || isTyping) return;
+
+    const fork = forkAt(messages, branches, index);
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      role: Role.USER,
+      content: text,
+      type: MessageType.TEXT,
       timestamp: Date.now(),
-      attachments: response.images ? response.images.map(img => ({ type: 'image/png', data: img, name: 'generated.png' })) : [],
-      groundingMetadata: response.groundingMetadata
+      attachments: original.attachments,
+      parentId: fork.kept[fork.kept.length - 1]?.id
     };
+    const nextCompaction = compactionFor(fork.kept);
+    setBranches(fork.branches);
+    setMessages([...fork.kept, userMsg]);
+    setCompaction(nextCompaction);
+    setFocusMessageId(null);
+    await requestModelResponse(fork.kept, userMsg, imageSettings, nextCompaction);
+  };
+
+  /**
+   * Generates a new reply to the same prompt; the previous reply and its follow-ups become an inactive branch.
+   */
+  const handleRegenerate = async (messageId: string, imageSettings?: ImageSettings) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const userMsg = messages[index - 1];
+    if (index < 1 || userMsg.role !== Role.USER || isTyping) return;
+
+    const fork = forkAt(messages, branches, index);
+    const history = fork.kept.slice(0, -1);
+    const nextCompaction = compactionFor(history);
+    setBranches(fork.branches);
+    setMessages(fork.kept);
+    setCompaction(nextCompaction);
+    setFocusMessageId(null);
+    await requestModelResponse(history, fork.kept[index - 1], imageSettings, nextCompaction);
+  };
+
+  const handleSwitchBranch = (messageId: string) => {
+    if (isTyping) return;
+    const next = switchBranch(messages, branches, messageId);
+    setMessages(next.messages);
+    setBranches(next.branches);
+    setCompaction(compactionFor(next.messages));
+    setFocusMessageId(messageId);
+  };
+
+  /**
+   * Asks the model for memory updates based on the conversation; results wait for review.
+   */
+  const runMemoryExtraction = async (conversation: Message[], openReview: boolean) => {
+    if (!currentProject) return;
+    const source = { projectId: currentProject.id, memoryVersion: currentMemoryVersion(currentProject) };
+    setIsExtracting(true);
+    try {
+      const proposals = await proposeMemoryUpdates(currentMode, currentProject, conversation);
+      // Results may arrive after a project switch; they stay tagged with their source and are only shown there
+      setMemoryProposals(prev => mergeMemoryProposals(prev, proposals, source));
+      if (openReview) setIsReviewOpen(true);
+    } catch (e) {
+      console.warn("Memory extraction failed:", e);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleApplyProposals = (accepted: MemoryProposal[]) => {
+    if (!currentProject) return;
+    const current = accepted.filter(p => isCurrentProposal(p, currentProject));
+    if (current.length > 0) {
+      applyProjects(commitMemory(
+        currentProject.id,
+        applyMemoryProposals(currentProject.memory, current),
+        'auto_extraction',
+        `Accepted ${current.length} of ${pendingProposals.length} proposed update(s)`
+      ));
+    }
+    dismissProposals();
+  };
+
+  const dismissProposals = () => {
+    setMemoryProposals(prev => prev.filter(p => p.projectId !== currentProject?.id));
+    setIsReviewOpen(false);
+  };
 
-    setMessages(prev => [...prev, aiMsg]);
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleLoadSession = (session: ChatSession) => {
     setCurrentSessionId(session.id);
+    setFocusMessageId(null);
     setMessages(session.messages);
+    setBranches(session.branches || []);
+    setCompaction(session.compaction);
     
     // Restore Mode
     const savedMode = MODES.find(m => m.id === session.modeId);
     if (savedMode) setMode(savedMode);
     
     // Restore Project
-    const savedProject = MOCK_PROJECTS.find(p => p.id === session.projectId);
+    const savedProject = projects.find(p => p.id === session.projectId);
     setProject(savedProject || null);
   };
 
   const handleNewChat = () => {
     setCurrentSessionId(null);
+    setFocusMessageId(null);
     setMessages([]);
+    setBranches([]);
+    setCompaction(undefined);
     setMode(MODES[0]);
     setProject(null);
   };
 
+  /**
+   * Opens a session scrolled to one of its messages (search results, recalled excerpts).
+   */
+  const handleOpenMessage = (session: ChatSession, messageId: string) => {
+    handleLoadSession(session);
+    setFocusMessageId(messageId);
+  };
+
+  const handleOpenRecalled = (excerpt: RetrievedExcerpt) => {
+    const session = sessions.find(s => s.id === excerpt.sessionId);
+    if (session) handleOpenMessage(session, excerpt.messageId);
+  };
+
   const handleDeleteSession = (id: string) => {
       const updated = deleteSession(id);
-      setSessions(updated);
+      applySessions(updated);
       if (currentSessionId === id) {
           handleNewChat();
       }
   };
 
+  // Proposals belong to the project they were extracted for (see pendingProposals)
+  useEffect(() => {
+    setIsReviewOpen(false);
+  }, [currentProject?.id]);
+
+  // Keeps the active project object in sync after store updates
+  const applyProjects = (updated: Project[]) => {
+    setProjects(updated);
+    setProject(prev => prev ? updated.find(p => p.id === prev.id) || null : null);
+  };
+
+  const handleProjectSubmit = (values: Pick<Project, 'name' | 'description' | 'researchSettings' | 'autoExtractMemory' | 'retention'>) => {
+    if (projectDialog?.kind === 'edit') {
+      applyProjects(updateProject(projectDialog.project.id, values));
+    } else {
+      const { project, projects: updated } = createProject(values);
+      setProjects(updated);
+      setProject(project);
+    }
+    // The retention setting may have changed
+    applySessions(sweepRetention());
+    setProjectDialog(null);
+  };
+
+  const handleSaveMemory = (memory: ProjectMemory, reason: string) => {
+    if (!currentProject) return;
+    applyProjects(commitMemory(currentProject.id, memory, 'user', reason));
+    setIsMemoryOpen(false);
+  };
+
+  const handleRollbackMemory = (version: number) => {
+    if (!currentProject) return;
+    // Reopen the history on the version the rollback creates
+    setMemoryFocusVersion(currentMemoryVersion(currentProject) + 1);
+    applyProjects(rollbackMemory(currentProject.id, version));
+  };
+
+  const handleOpenMemory = (version?: number) => {
+    setMemoryFocusVersion(version);
+    setIsMemoryOpen(true);
+  };
+
+  const handleArchiveProject = (id: string, archived: boolean) => {
+    applyProjects(setProjectArchived(id, archived));
+    if (archived && currentProject?.id === id) setProject(null);
+  };
+
+  const handleConfirmDeleteProject = (policy: 'detach' | 'delete') => {
+    if (projectDialog?.kind !== 'delete') return;
+    const { project } = projectDialog;
+
+    applySessions(releaseProjectSessions(project.id, policy));
+    deleteProjectKnowledge(project.id);
+    applyProjects(deleteProject(project.id));
+
+    const currentSession = sessions.find(s => s.id === currentSessionId);
+    if (policy === 'delete' && currentSession?.projectId === project.id) {
+      handleNewChat();
+    }
+    setProjectDialog(null);
+  };
+
+  const applyBundle = (bundle: ProjectBundle, strategy: BundleImportStrategy) => {
+    const { project, projects: updated, sessions: updatedSessions } = importProjectBundle(bundle, strategy);
+    setProjects(updated);
+    applySessions(updatedSessions);
+    setProject(project);
+    setProjectDialog(null);
+  };
+
+  /**
+   * Reads a project bundle file. ID collisions are resolved by the user in the project dialog.
+   */
+  const handleImportProject = async (file: File) => {
+    try {
+      const bundle = parseProjectBundle(await file.text());
+      const conflict = findBundleConflict(bundle);
+      if (conflict) {
+        setProjectDialog({ kind: 'import', bundle, conflict });
+      } else {
+        applyBundle(bundle, 'copy');
+      }
+    } catch (e: any) {
+      setProjectDialog({ kind: 'import_error', message: e.message });
+    }
+  };
+
+  const handleImportSessions = async (file: File) => {
+    try {
+      applySessions(importSessions(parseSessionArchive(await file.text())));
+    } catch (e: any) {
+      setProjectDialog({ kind: 'import_error', message: e.message });
+    }
+  };
+
   return (
     <div className="flex h-screen w-full bg-jet text-gray-100 font-sans selection:bg-gold-dim/30 relative overflow-hidden">
       {/* Background System */}
@@ -145,24 +508,101 @@ function App() {
         <Sidebar 
             sessions={sessions}
             currentSessionId={currentSessionId}
-            projects={MOCK_PROJECTS}
+            projects={projects}
             currentProjectId={currentProject?.id || null}
             onLoadSession={handleLoadSession}
+            onOpenMessage={handleOpenMessage}
             onNewChat={handleNewChat}
-            onDownloadSession={downloadSessionAsTxt}
+            onExportSessions={downloadSessions}
+            onImportSessions={handleImportSessions}
             onDeleteSession={handleDeleteSession}
+            trash={trash}
+            onPinSession={(id, pinned) => applySessions(setSessionPinned(id, pinned))}
+            onArchiveSession={(id, archived) => applySessions(setSessionArchived(id, archived))}
+            onRestoreSession={(id) => applySessions(restoreSession(id))}
+            onPurgeTrash={(ids) => setTrash(purgeTrash(ids))}
             onSelectProject={setProject}
+            onCreateProject={() => setProjectDialog({ kind: 'create' })}
+            onEditProject={(project) => setProjectDialog({ kind: 'edit', project })}
+            onDuplicateProject={(id) => applyProjects(duplicateProject(id))}
+            onExportProject={downloadProjectBundle}
+            onImportProject={handleImportProject}
+            onArchiveProject={handleArchiveProject}
+            onDeleteProject={(project) => setProjectDialog({ kind: 'delete', project, sessionCount: sessions.filter(s => s.projectId === project.id).length })}
         />
         <ChatInterface 
           currentMode={currentMode}
           setMode={setMode}
           currentProject={currentProject}
           setProject={setProject}
+          projects={projects}
+          onCreateProject={() => setProjectDialog({ kind: 'create' })}
+          onOpenMemory={() => handleOpenMemory()}
+          onOpenMemoryVersion={handleOpenMemory}
+          onOpenRecalled={handleOpenRecalled}
+          buildPromptPreview={buildPromptPreview}
+          gatherTurnContext={gatherTurnContext}
+          focusMessageId={focusMessageId}
+          onExtractMemory={() => runMemoryExtraction(messages, true)}
+          onReviewMemory={() => setIsReviewOpen(true)}
+          pendingProposalCount={pendingProposals.length}
+          isExtracting={isExtracting}
           messages={messages}
           onSendMessage={handleSendMessage}
           isTyping={isTyping}
+          progressNote={progressNote}
+          onStop={handleStopGeneration}
+          onRetry={handleRetry}
+          branchPoints={findBranchPoints(messages, branches)}
+          onEditMessage={handleEditMessage}
+          onRegenerate={handleRegenerate}
+          onSwitchBranch={handleSwitchBranch}
+          compaction={compaction}
         />
       </div>
+
+      {storageWarning && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-3 max-w-lg bg-jet border border-yellow-500/40 text-yellow-400 text-xs font-mono px-4 py-3 rounded-sm shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+          <AlertTriangle size={14} className="shrink-0" />
+          <span className="flex-1">{storageWarning.message}</span>
+          {storageWarning.kind === 'outdated' && (
+            <button onClick={() => window.location.reload()} className="uppercase text-gold hover:text-white">Reload</button>
+          )}
+          <button onClick={() => setStorageWarning(null)} className="text-gray-500 hover:text-white"><X size={12} /></button>
+        </div>
+      )}
+
+      {projectDialog && (
+        <ProjectDialog
+          key={'project' in projectDialog ? `${projectDialog.kind}-${projectDialog.project.id}` : projectDialog.kind}
+          state={projectDialog}
+          onClose={() => setProjectDialog(null)}
+          onSubmit={handleProjectSubmit}
+          onConfirmDelete={handleConfirmDeleteProject}
+          onConfirmImport={(strategy) => projectDialog.kind === 'import' && applyBundle(projectDialog.bundle, strategy)}
+        />
+      )}
+
+      {isReviewOpen && currentProject && (
+        <MemoryReviewPanel
+          key={pendingProposals.map(p => p.id).join()}
+          projectName={currentProject.name}
+          proposals={pendingProposals}
+          onApply={handleApplyProposals}
+          onDismiss={dismissProposals}
+        />
+      )}
+
+      {isMemoryOpen && currentProject && (
+        <MemoryPanel
+          key={`${currentProject.id}_v${currentMemoryVersion(currentProject)}`}
+          project={currentProject}
+          focusVersion={memoryFocusVersion}
+          onClose={() => setIsMemoryOpen(false)}
+          onSave={handleSaveMemory}
+          onRollback={handleRollbackMemory}
+        />
+      )}
     </div>
   );
 }
@@ -1,17 +1,43 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Image as ImageIcon, Globe, Mic, AudioLines, ChevronDown, Sparkles, Folder, Cpu, Zap, Search, Settings2, X, BookOpen, TrendingUp, Copy, Check, Database, Settings } from 'lucide-react';
-import { Message, MessageType, Role, Mode, Project, ModeType, APIProvider, ImageSettings } from '../types';
-import { MOCK_PROJECTS, MODES } from '../constants';
+import { Send, Paperclip, Image as ImageIcon, Globe, Mic, AudioLines, ChevronDown, Sparkles, Folder, Cpu, Zap, Search, Settings2, X, BookOpen, TrendingUp, Copy, Check, Database, Settings, Brain, Square, AlertTriangle, RotateCcw, FileText, Wand2, Layers, Download, BrainCircuit, History, Library, ScanSearch, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Message, MessageType, Role, Mode, Project, ModeType, APIProvider, ImageSettings, ContextCompaction, Attachment, RetrievedExcerpt, KnowledgeHit, PromptSnapshot, BranchPoint } from '../types';
+import { MODES, FAL_MODELS } from '../constants';
 import ReactMarkdown from 'react-markdown';
+import { buildSystemInstruction, excludeFailedTurns } from '../services/geminiService';
+import { measureContext } from '../services/contextService';
+import { ACCEPTED_FILE_TYPES, MAX_ATTACHMENTS, attachmentSrc, isImageAttachment, readAttachment } from '../services/attachmentService';
+import { DEFAULT_IMAGE_QUALITY } from '../services/imageService';
+import { currentMemoryVersion } from '../services/memoryHistoryService';
+import PromptInspector from './PromptInspector';
 
 interface ChatInterfaceProps {
   currentMode: Mode;
   setMode: (mode: Mode) => void;
   currentProject: Project | null;
   setProject: (project: Project | null) => void;
+  projects: Project[];
+  onCreateProject: () => void;
+  onOpenMemory: () => void;
+  onOpenMemoryVersion: (version: number) => void;
+  onOpenRecalled: (excerpt: RetrievedExcerpt) => void;
+  buildPromptPreview: (text: string, attachments: Attachment[], imageSettings?: ImageSettings) => PromptSnapshot;
+  gatherTurnContext: (query: string) => { recalled: RetrievedExcerpt[]; knowledge: KnowledgeHit[] };
+  focusMessageId?: string | null;
+  onExtractMemory: () => void;
+  onReviewMemory: () => void;
+  pendingProposalCount: number;
+  isExtracting: boolean;
   messages: Message[];
-  onSendMessage: (text: string, attachments: any[], imageSettings?: ImageSettings) => void;
+  onSendMessage: (text: string, attachments: Attachment[], imageSettings?: ImageSettings) => void;
   isTyping: boolean;
+  progressNote?: string | null;
+  onStop: () => void;
+  onRetry: (messageId: string, imageSettings?: ImageSettings) => void;
+  branchPoints: Record<string, BranchPoint>; // Active messages that have alternative branches
+  onEditMessage: (messageId: string, text: string, imageSettings?: ImageSettings) => void;
+  onRegenerate: (messageId: string, imageSettings?: ImageSettings) => void;
+  onSwitchBranch: (messageId: string) => void;
+  compaction?: ContextCompaction;
 }
 
 // Add speech recognition types to window
@@ -23,12 +49,13 @@ declare global {
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
-  currentMode, setMode, currentProject, setProject, messages, onSendMessage, isTyping 
+  currentMode, setMode, currentProject, setProject, projects, onCreateProject, onOpenMemory, onOpenMemoryVersion, onOpenRecalled, buildPromptPreview, gatherTurnContext, focusMessageId, onExtractMemory, onReviewMemory, pendingProposalCount, isExtracting, messages, onSendMessage, isTyping, progressNote, onStop, onRetry, branchPoints, onEditMessage, onRegenerate, onSwitchBranch, compaction
 }) => {
   const [inputText, setInputText] = useState('');
   const [isModeOpen, setIsModeOpen] = useState(false);
   const [isProjectOpen, setIsProjectOpen] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [expandedReasoningId, setExpandedReasoningId] = useState<string | null>(null);
   
   // Microphone State
   const [isRecording, setIsRecording] = useState(false);
@@ -39,8 +66,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [isImageSettingsOpen, setIsImageSettingsOpen] = useState(false);
   const [imageSettings, setImageSettings] = useState<ImageSettings>({
     aspectRatio: '1:1',
-    format: 'image/png'
+    format: 'image/png',
+    quality: DEFAULT_IMAGE_QUALITY,
+    model: FAL_MODELS[0].id,
+    numImages: 1,
+    guidanceScale: 3.5
   });
+  const selectedFalModel = FAL_MODELS.find(m => m.id === imageSettings.model) || FAL_MODELS[0];
+
+  // Attachment State
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const [previewBeforeSend, setPreviewBeforeSend] = useState(false);
+  const [inspected, setInspected] = useState<{ snapshot: PromptSnapshot; preview?: boolean } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -50,18 +91,34 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages, isTyping]);
-
-  // --- Memory Calculation (Simulated) ---
-  // Starts at 42% to simulate system overhead/base context, then grows with messages
-  const memoryUsage = React.useMemo(() => {
-    const totalChars = messages.reduce((acc, msg) => acc + (msg.content?.length || 0), 0);
-    const limit = 50000; 
-    const realUsage = Math.round((totalChars / limit) * 100);
-    // Base 42% + Real Usage, capped at 100%
-    return Math.min(100, 42 + realUsage);
-  }, [messages]);
+    // A message opened from a recalled excerpt takes precedence over following the conversation
+    const focused = focusMessageId && document.getElementById(`msg-${focusMessageId}`);
+    if (focused) focused.scrollIntoView({ behavior: "smooth", block: "center" });
+    else scrollToBottom();
+  }, [messages, isTyping, focusMessageId]);
+
+  // --- Memory Calculation ---
+  // Estimated tokens of the next request (system prompt with retrieved context + history + draft + attachments)
+  // vs. the model's context window. Retrieval follows the draft with a deferred value so typing stays responsive.
+  const draft = React.useDeferredValue(inputText.trim());
+  const turnContext = React.useMemo(() => gatherTurnContext(draft), [gatherTurnContext, draft]);
+  const contextUsage = React.useMemo(() => measureContext(
+    currentMode,
+    buildSystemInstruction(currentMode, currentProject, turnContext),
+    excludeFailedTurns(messages),
+    pendingAttachments,
+    compaction,
+    draft
+  ), [currentMode, currentProject, turnContext, messages, pendingAttachments, compaction, draft]);
+  const memoryUsage = Math.round(contextUsage.ratio * 100);
+  const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+  // --- Branch Editing ---
+  const handleSubmitEdit = () => {
+    if (!editing?.text.trim()) return;
+    onEditMessage(editing.id, editing.text.trim(), currentMode.id === ModeType.IMAGE_GEN ? imageSettings : undefined);
+    setEditing(null);
+  };
 
   // --- Copy Functionality ---
   const handleCopy = (text: string, id: string) => {
@@ -70,6 +127,50 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  // --- Attachment Logic ---
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    const errors: string[] = [];
+    if (files.length > room) {
+      errors.push(`Maximum ${MAX_ATTACHMENTS} attachments per message.`);
+    }
+
+    const results = await Promise.allSettled(files.slice(0, Math.max(0, room)).map(readAttachment));
+    const accepted: Attachment[] = [];
+    results.forEach(result => {
+      if (result.status === 'fulfilled') accepted.push(result.value);
+      else errors.push(result.reason?.message || String(result.reason));
+    });
+
+    setPendingAttachments(prev => [...prev, ...accepted].slice(0, MAX_ATTACHMENTS));
+    setAttachmentError(errors.length > 0 ? errors.join(' ') : null);
+  };
+
+  const removeAttachment = (index: number) => {
+    setPendingAttachments(prev => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = ''; // Allow picking the same file again
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   // --- Speech Recognition Logic ---
   const toggleRecording = () => {
     if (isRecording) {
@@ -141,14 +242,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
-  const handleSend = () => {
-    if (!inputText.trim()) return;
+  // --- Iterative Image Work ---
+  const switchToImageMode = () => {
+    if (currentMode.id === ModeType.IMAGE_GEN) return;
+    setPreviousMode(currentMode);
+    const imageMode = MODES.find(m => m.id === ModeType.IMAGE_GEN);
+    if (imageMode) setMode(imageMode);
+  };
+
+  // Stages a generated image as input so the next prompt edits it
+  const handleEditImage = (att: Attachment) => {
+    switchToImageMode();
+    setPendingAttachments([{ ...att, name: `edit_source_${att.name}` }]);
+    setAttachmentError(null);
+    setIsImageSettingsOpen(true);
+  };
+
+  // Requests N variations (IMAGES setting) of a generated image
+  const handleImageVariations = (att: Attachment) => {
+    const instruction = 'Create a variation of this image. Keep the subject, composition and style, vary the details.';
+    if (currentMode.id !== ModeType.IMAGE_GEN) {
+      // Mode switch applies on the next render: stage the request for the user to send
+      handleEditImage(att);
+      setInputText(instruction);
+      return;
+    }
+    onSendMessage(instruction, [{ ...att, name: `variation_source_${att.name}` }], imageSettings);
+  };
+
+  const canSend = (inputText.trim().length > 0 || pendingAttachments.length > 0) && !isTyping;
+
+  const handleSend = (confirmed = false) => {
+    if (!canSend) return;
     
     // If in Image Mode, pass settings
     const settingsToSend = currentMode.id === ModeType.IMAGE_GEN ? imageSettings : undefined;
+
+    if (previewBeforeSend && !confirmed) {
+      setInspected({ snapshot: buildPromptPreview(inputText, pendingAttachments, settingsToSend), preview: true });
+      return;
+    }
     
-    onSendMessage(inputText, [], settingsToSend);
+    setInspected(null);
+    onSendMessage(inputText, pendingAttachments, settingsToSend);
     setInputText('');
+    setPendingAttachments([]);
+    setAttachmentError(null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -223,7 +362,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             >
                                 [RESET_CONTEXT]
                             </button>
-                            {MOCK_PROJECTS.map(proj => (
+                            {projects.filter(proj => !proj.archived).map(proj => (
                                 <button
                                     key={proj.id}
                                     onClick={() => { setProject(proj); setIsProjectOpen(false); }}
@@ -232,6 +371,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                     <div className="font-display font-medium text-gray-200">{proj.name}</div>
                                 </button>
                             ))}
+                            <button 
+                                onClick={() => { setIsProjectOpen(false); onCreateProject(); }}
+                                className="w-full text-left px-3 py-3 text-xs font-mono text-gold-dim hover:bg-white/5 hover:text-gold border-t border-white/5"
+                            >
+                                + NEW_CONTEXT
+                            </button>
                         </div>
                     )}
                 </div>
@@ -262,14 +407,48 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     </div>
                 </div>
                 
-                <div className="flex flex-col gap-0.5">
+                <div 
+                    className="flex flex-col gap-0.5"
+                    title={`System: ${formatTokens(contextUsage.systemTokens)} • History: ${formatTokens(contextUsage.historyTokens)} • Attachments: ${formatTokens(contextUsage.attachmentTokens)}`}
+                >
                     <span className="text-[11px] font-display font-bold text-gray-200 tracking-widest">PAMIĘĆ</span>
-                    <span className="text-[9px] font-mono text-gold-dim">{memoryUsage > 90 ? 'CRITICAL LEVEL' : 'SYSTEM OPTIMAL'}</span>
+                    <span className="text-[9px] font-mono text-gray-500">{formatTokens(contextUsage.totalTokens)} / {formatTokens(contextUsage.contextWindow)} TOK</span>
+                    <span className="text-[9px] font-mono text-gold-dim">
+                        {memoryUsage > 90 
+                            ? 'CRITICAL LEVEL' 
+                            : compaction 
+                                ? `${compaction.method === 'summary' ? 'SUMMARIZED' : 'TRIMMED'} ${compaction.compactedCount} MSGS` 
+                                : 'SYSTEM OPTIMAL'}
+                    </span>
                 </div>
 
                 <div className="h-8 w-[1px] bg-white/10 mx-2"></div>
+
+                {pendingProposalCount > 0 ? (
+                    <button 
+                        onClick={onReviewMemory}
+                        className="flex items-center gap-1.5 text-[9px] font-mono text-gold bg-gold/10 border border-gold/30 px-2 py-1 rounded-full hover:bg-gold/20 transition-colors"
+                        title="Review proposed memory updates"
+                    >
+                        <BrainCircuit size={12} /> {pendingProposalCount} UPDATE{pendingProposalCount === 1 ? '' : 'S'}
+                    </button>
+                ) : (
+                    <button 
+                        onClick={onExtractMemory}
+                        disabled={!currentProject || isExtracting || messages.length === 0}
+                        className={`text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/5 rounded-full disabled:opacity-30 disabled:hover:bg-transparent ${isExtracting ? 'animate-pulse text-gold' : ''}`}
+                        title="Extract memory updates from this conversation"
+                    >
+                        <BrainCircuit size={16} />
+                    </button>
+                )}
                 
-                <button className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/5 rounded-full" title="Memory Settings">
+                <button 
+                    onClick={onOpenMemory}
+                    disabled={!currentProject}
+                    className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/5 rounded-full disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={currentProject ? "Memory Settings" : "Select a context to edit its memory"}
+                >
                     <Settings size={16} />
                 </button>
             </div>
@@ -347,7 +526,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             ) : (
                 <div className="space-y-8">
                     {messages.map((msg) => (
-                        <div key={msg.id} className={`flex gap-6 ${msg.role === Role.USER ? 'flex-row-reverse' : ''} animate-in fade-in slide-in-from-bottom-4 duration-500`}>
+                        <div key={msg.id} id={`msg-${msg.id}`} className={`flex gap-6 ${msg.role === Role.USER ? 'flex-row-reverse' : ''} ${msg.id === focusMessageId ? 'ring-1 ring-gold/40 rounded-sm p-2 -m-2' : ''} animate-in fade-in slide-in-from-bottom-4 duration-500`}>
                             {/* Avatar */}
                             <div className={`w-8 h-8 rounded-sm flex-shrink-0 flex items-center justify-center text-[10px] font-mono border ${
                                 msg.role === Role.USER 
@@ -363,26 +542,140 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 ? 'bg-graphite border border-white/5 rounded-sm p-5 text-gray-100 shadow-lg' 
                                 : 'bg-transparent text-gray-300 px-0 pt-0'
                             }`}>
-                                {msg.content && (
+                                {/* Reasoning Trace (collapsible) */}
+                                {msg.reasoning && (
+                                    <div className="mb-4 border-l border-gold/20 pl-4">
+                                        <button
+                                            onClick={() => setExpandedReasoningId(expandedReasoningId === msg.id ? null : msg.id)}
+                                            className="flex items-center gap-2 text-[10px] font-mono text-gold-dim uppercase tracking-widest hover:text-gold transition-colors"
+                                        >
+                                            <Brain size={10} /> Reasoning Trace
+                                            <ChevronDown size={10} className={`transition-transform ${expandedReasoningId === msg.id ? 'rotate-180' : ''}`} />
+                                        </button>
+                                        {expandedReasoningId === msg.id && (
+                                            <div className="mt-3 text-xs font-mono text-gray-500 whitespace-pre-wrap leading-6">
+                                                {msg.reasoning}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {msg.type === MessageType.ERROR ? (
+                                    <div className="border border-red-500/30 bg-red-500/5 rounded-sm p-4">
+                                        <p className="text-[10px] font-mono text-red-400 mb-2 uppercase tracking-widest flex items-center gap-2">
+                                            <AlertTriangle size={10} /> {msg.error?.kind.replace('_', ' ') || 'error'} // {msg.error?.provider}
+                                        </p>
+                                        <div className="prose prose-invert prose-sm max-w-none prose-p:font-sans prose-code:font-mono prose-code:text-red-300/80 prose-code:text-[11px]">
+                                            <ReactMarkdown>{msg.content}</ReactMarkdown>
+                                        </div>
+                                        <button
+                                            onClick={() => onRetry(msg.id, currentMode.id === ModeType.IMAGE_GEN ? imageSettings : undefined)}
+                                            disabled={isTyping}
+                                            className="mt-3 flex items-center gap-1.5 px-2 py-1 rounded-sm text-[10px] font-mono text-gray-400 hover:text-gold hover:bg-white/5 border border-white/10 transition-colors disabled:opacity-40"
+                                        >
+                                            <RotateCcw size={10} /> RETRY
+                                        </button>
+                                    </div>
+                                ) : editing?.id === msg.id ? (
+                                    <div className="min-w-[320px]">
+                                        <textarea
+                                            autoFocus
+                                            value={editing.text}
+                                            onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmitEdit(); }
+                                                if (e.key === 'Escape') setEditing(null);
+                                            }}
+                                            rows={Math.min(10, editing.text.split('\n').length + 1)}
+                                            className="w-full bg-black/50 border border-white/10 text-sm text-gray-100 p-2 rounded-sm focus:border-gold focus:outline-none resize-y"
+                                        />
+                                        <div className="mt-2 flex justify-end gap-2 text-[10px] font-mono">
+                                            <button onClick={() => setEditing(null)} className="px-2 py-1 text-gray-500 hover:text-white uppercase">Cancel</button>
+                                            <button onClick={handleSubmitEdit} disabled={!editing.text.trim() || isTyping} className="px-2 py-1 border border-gold/30 text-gold hover:bg-gold/10 rounded-sm uppercase disabled:opacity-40">
+                                                Send as new branch
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : msg.content && (
                                     <div className="prose prose-invert prose-sm max-w-none prose-headings:font-display prose-headings:text-gold prose-p:font-sans prose-p:leading-7 prose-code:font-mono prose-code:text-gold-dim prose-code:bg-black/50 prose-code:px-1 prose-code:py-0.5 prose-code:rounded-sm">
                                         <ReactMarkdown>{msg.content}</ReactMarkdown>
                                     </div>
                                 )}
                                 
                                 {/* Image Display */}
-                                {msg.attachments && msg.attachments.length > 0 && (
+                                {msg.attachments && msg.attachments.some(isImageAttachment) && (
                                     <div className="mt-4 grid grid-cols-2 gap-3">
-                                        {msg.attachments.map((att, idx) => (
+                                        {msg.attachments.filter(isImageAttachment).map((att, idx) => (
                                             <div key={idx} className="relative group overflow-hidden rounded-sm border border-gold/20">
-                                                <img src={att.data} alt="Generated" className="w-full h-auto transition-transform duration-700 group-hover:scale-105" />
-                                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-2">
-                                                    <span className="text-[10px] font-mono text-gold uppercase">Asset_0{idx+1}</span>
+                                                <img src={attachmentSrc(att)} alt={att.name} className="w-full h-auto transition-transform duration-700 group-hover:scale-105" />
+                                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between p-2">
+                                                    <span className="text-[10px] font-mono text-gold uppercase">Asset_0{idx+1} // {att.type.split('/')[1]}</span>
+                                                    {msg.role === Role.MODEL && (
+                                                        <div className="flex items-center gap-1">
+                                                            <button onClick={() => handleEditImage(att)} disabled={isTyping} className="p-1.5 bg-black/60 text-gray-300 hover:text-gold rounded-sm disabled:opacity-40" title="Edit this image">
+                                                                <Wand2 size={12} />
+                                                            </button>
+                                                            <button onClick={() => handleImageVariations(att)} disabled={isTyping} className="p-1.5 bg-black/60 text-gray-300 hover:text-gold rounded-sm disabled:opacity-40" title="Create variations">
+                                                                <Layers size={12} />
+                                                            </button>
+                                                            <a href={attachmentSrc(att)} download={att.name} className="p-1.5 bg-black/60 text-gray-300 hover:text-gold rounded-sm" title="Download">
+                                                                <Download size={12} />
+                                                            </a>
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))}
                                     </div>
                                 )}
 
+                                {/* Document Attachments */}
+                                {msg.attachments && msg.attachments.some(att => !isImageAttachment(att)) && (
+                                    <div className="mt-3 flex flex-wrap gap-2">
+                                        {msg.attachments.filter(att => !isImageAttachment(att)).map((att, idx) => (
+                                            <div key={idx} className="flex items-center gap-2 bg-black/40 border border-white/10 px-3 py-1.5 rounded-sm text-[10px] font-mono text-gray-400" title={att.text ? `${att.text.length} chars extracted` : 'No text extracted'}>
+                                                <FileText size={12} className="text-gold-dim" />
+                                                <span className="truncate max-w-[180px]">{att.name}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Excerpts recalled from the project's other sessions */}
+                                {msg.recalled && msg.recalled.length > 0 && (
+                                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                                        <span className="text-[10px] font-mono text-gray-600 uppercase tracking-widest flex items-center gap-1">
+                                            <History size={10} /> Recalled
+                                        </span>
+                                        {msg.recalled.map((excerpt, i) => (
+                                            <button
+                                                key={`${excerpt.messageId}_${i}`}
+                                                onClick={() => onOpenRecalled(excerpt)}
+                                                className="bg-black border border-white/10 hover:border-gold/50 text-gray-400 hover:text-gold text-[10px] px-2 py-1 rounded-sm transition-all font-mono truncate max-w-[200px]"
+                                                title={excerpt.text}
+                                            >
+                                                [{i + 1}] {excerpt.sessionTitle}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Project knowledge chunks used for this reply */}
+                                {msg.knowledge && msg.knowledge.length > 0 && (
+                                    <div className="mt-6 pt-4 border-t border-white/5">
+                                        <p className="text-[10px] font-mono text-gold-dim mb-3 uppercase tracking-widest flex items-center gap-2">
+                                            <Library size={10} /> Knowledge Sources
+                                        </p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {msg.knowledge.map((hit, i) => (
+                                                <span key={`${hit.documentId}_${hit.chunkIndex}`} title={hit.text} className="bg-black border border-white/10 text-gray-400 text-[10px] px-3 py-1.5 rounded-sm font-mono truncate max-w-[200px] cursor-help">
+                                                    [K{i + 1}] {hit.documentName} · part {hit.chunkIndex + 1}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Grounding Metadata (Sources) */}
                                 {msg.groundingMetadata?.groundingChunks && (
                                     <div className="mt-6 pt-4 border-t border-white/5">
@@ -401,8 +694,35 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                     </div>
                                 )}
                                 
-                                {/* Copy Button for AI Messages */}
-                                {msg.role === Role.MODEL && (
+                                {msg.interrupted && (
+                                    <div className="mt-3 text-[10px] font-mono text-red-400/80 uppercase tracking-widest">
+                                        // Interrupted: response stopped by user
+                                    </div>
+                                )}
+
+                                {/* Edit & branch navigation for user messages */}
+                                {msg.role === Role.USER && editing?.id !== msg.id && (
+                                    <div className="mt-3 flex items-center justify-end gap-2">
+                                        <button
+                                            onClick={() => setEditing({ id: msg.id, text: msg.content })}
+                                            disabled={isTyping}
+                                            className="flex items-center gap-1.5 px-2 py-1 rounded-sm text-[10px] font-mono text-gray-500 hover:text-gold hover:bg-white/5 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-0"
+                                            title="Edit and resend as a new branch"
+                                        >
+                                            <Pencil size={10} /> EDIT
+                                        </button>
+                                        {branchPoints[msg.id] && <BranchNav point={branchPoints[msg.id]} disabled={isTyping} onSwitch={onSwitchBranch} />}
+                                    </div>
+                                )}
+
+                                {/* Branch Navigation for AI Messages */}
+                                {msg.role === Role.MODEL && branchPoints[msg.id] && (
+                                    <div className="mt-2">
+                                        <BranchNav point={branchPoints[msg.id]} disabled={isTyping} onSwitch={onSwitchBranch} />
+                                    </div>
+                                )}
+                                {/* Copy and Regenerate Buttons for AI Messages */}
+                                {msg.role === Role.MODEL && msg.type !== MessageType.ERROR && (
                                     <div className="mt-2 flex justify-start opacity-0 group-hover:opacity-100 transition-opacity">
                                         <button 
                                             onClick={() => handleCopy(msg.content, msg.id)}
@@ -412,12 +732,41 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                             {copiedId === msg.id ? <Check size={12} className="text-green-500" /> : <Copy size={12} />}
                                             <span className="font-mono">{copiedId === msg.id ? 'COPIED' : 'COPY'}</span>
                                         </button>
+                                        <button
+                                            onClick={() => onRegenerate(msg.id, currentMode.id === ModeType.IMAGE_GEN ? imageSettings : undefined)}
+                                            disabled={isTyping}
+                                            className="flex items-center gap-1.5 px-2 py-1 rounded-sm text-[10px] text-gray-500 hover:text-gold hover:bg-white/5 transition-colors disabled:opacity-40"
+                                            title="Generate another reply as a new branch"
+                                        >
+                                            <RefreshCw size={12} />
+                                            <span className="font-mono">REGENERATE</span>
+                                        </button>
+                                        {msg.prompt && (
+                                            <button
+                                                onClick={() => setInspected({ snapshot: msg.prompt! })}
+                                                className="flex items-center gap-1.5 px-2 py-1 rounded-sm text-[10px] text-gray-500 hover:text-gold hover:bg-white/5 transition-colors"
+                                                title="Show the exact request sent to the model"
+                                            >
+                                                <ScanSearch size={12} />
+                                                <span className="font-mono">INSPECT</span>
+                                            </button>
+                                        )}
+                                        {msg.memoryVersion !== undefined && currentProject && (
+                                            <button
+                                                onClick={() => onOpenMemoryVersion(msg.memoryVersion!)}
+                                                className={`flex items-center gap-1.5 px-2 py-1 rounded-sm text-[10px] font-mono hover:bg-white/5 transition-colors ${msg.memoryVersion < currentMemoryVersion(currentProject) ? 'text-yellow-500/70 hover:text-yellow-400' : 'text-gray-500 hover:text-gold'}`}
+                                                title="Project memory version used for this reply"
+                                            >
+                                                <History size={12} /> MEM v{msg.memoryVersion}{msg.memoryVersion < currentMemoryVersion(currentProject) && ' // OUTDATED'}
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
                         </div>
                     ))}
-                    {isTyping && (
+                    {/* Typing indicator until the first streamed chunk arrives */}
+                    {isTyping && messages[messages.length - 1]?.role === Role.USER && (
                         <div className="flex gap-6 animate-pulse">
                              <div className="w-8 h-8 rounded-sm border border-white/10 flex items-center justify-center bg-transparent">
                                 <Cpu size={14} className="text-gray-600" />
@@ -426,6 +775,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 <span className="w-1 h-1 bg-gold rounded-full animate-bounce [animation-delay:-0.3s]"></span>
                                 <span className="w-1 h-1 bg-gold rounded-full animate-bounce [animation-delay:-0.15s]"></span>
                                 <span className="w-1 h-1 bg-gold rounded-full animate-bounce"></span>
+                                {progressNote && (
+                                    <span className="ml-3 text-[10px] font-mono text-gold-dim uppercase tracking-widest">{progressNote}</span>
+                                )}
                              </div>
                         </div>
                     )}
@@ -443,11 +795,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             {currentMode.id === ModeType.IMAGE_GEN && isImageSettingsOpen && (
                 <div className="absolute bottom-full mb-4 left-10 bg-jet border border-gold/30 p-4 rounded-sm shadow-[0_0_20px_rgba(214,179,118,0.1)] w-64 backdrop-blur-xl animate-in fade-in slide-in-from-bottom-2 z-50">
                     <div className="flex items-center justify-between mb-3 border-b border-white/10 pb-2">
-                        <span className="text-xs font-display font-bold text-gold uppercase tracking-widest">Nano Pro Config</span>
+                        <span className="text-xs font-display font-bold text-gold uppercase tracking-widest">Fal.ai Config</span>
                         <button onClick={() => setIsImageSettingsOpen(false)} className="text-gray-500 hover:text-white"><X size={12}/></button>
                     </div>
                     
                     <div className="space-y-4">
+                        <div>
+                            <label className="block text-[10px] font-mono text-gray-500 mb-1">MODEL</label>
+                            <select 
+                                value={selectedFalModel.id}
+                                onChange={(e) => setImageSettings({...imageSettings, model: e.target.value})}
+                                className="w-full bg-black/50 border border-white/10 text-xs text-gray-200 p-2 rounded-sm focus:border-gold focus:outline-none"
+                            >
+                                {FAL_MODELS.map(model => (
+                                    <option key={model.id} value={model.id}>{model.label}</option>
+                                ))}
+                            </select>
+                        </div>
                         <div>
                             <label className="block text-[10px] font-mono text-gray-500 mb-1">ASPECT RATIO</label>
                             <select 
@@ -474,11 +838,71 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 <option value="image/webp">WEBP (Web Opt)</option>
                             </select>
                         </div>
+                        {imageSettings.format !== 'image/png' && (
+                            <div>
+                                <label className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+                                    <span>QUALITY</span>
+                                    <span className="text-gold-dim">{Math.round((imageSettings.quality ?? DEFAULT_IMAGE_QUALITY) * 100)}%</span>
+                                </label>
+                                <input 
+                                    type="range" min={0.4} max={1} step={0.02}
+                                    value={imageSettings.quality ?? DEFAULT_IMAGE_QUALITY}
+                                    onChange={(e) => setImageSettings({...imageSettings, quality: Number(e.target.value)})}
+                                    className="w-full accent-[#d6b376]"
+                                />
+                            </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-[10px] font-mono text-gray-500 mb-1">IMAGES</label>
+                                <select 
+                                    value={imageSettings.numImages}
+                                    onChange={(e) => setImageSettings({...imageSettings, numImages: Number(e.target.value)})}
+                                    className="w-full bg-black/50 border border-white/10 text-xs text-gray-200 p-2 rounded-sm focus:border-gold focus:outline-none"
+                                >
+                                    {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-mono text-gray-500 mb-1">SEED</label>
+                                <input 
+                                    type="number"
+                                    value={imageSettings.seed ?? ''}
+                                    placeholder="Random"
+                                    onChange={(e) => setImageSettings({...imageSettings, seed: e.target.value === '' ? undefined : Number(e.target.value)})}
+                                    className="w-full bg-black/50 border border-white/10 text-xs text-gray-200 p-2 rounded-sm focus:border-gold focus:outline-none placeholder:text-gray-600"
+                                />
+                            </div>
+                        </div>
+                        {selectedFalModel.supportsGuidance && (
+                            <div>
+                                <label className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+                                    <span>GUIDANCE SCALE</span>
+                                    <span className="text-gold-dim">{imageSettings.guidanceScale}</span>
+                                </label>
+                                <input 
+                                    type="range" min={1} max={20} step={0.5}
+                                    value={imageSettings.guidanceScale}
+                                    onChange={(e) => setImageSettings({...imageSettings, guidanceScale: Number(e.target.value)})}
+                                    className="w-full accent-[#d6b376]"
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
 
-            <div className={`glass-panel rounded-none p-1 relative group transition-all duration-300 shadow-2xl ${currentMode.id === ModeType.IMAGE_GEN ? 'border-gold/40 shadow-[0_0_15px_rgba(214,179,118,0.15)]' : 'focus-within:border-gold/40'}`}>
+            <div 
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`glass-panel rounded-none p-1 relative group transition-all duration-300 shadow-2xl ${isDragging ? 'border-gold/60 bg-gold/5' : currentMode.id === ModeType.IMAGE_GEN ? 'border-gold/40 shadow-[0_0_15px_rgba(214,179,118,0.15)]' : 'focus-within:border-gold/40'}`}
+            >
+                {isDragging && (
+                    <div className="absolute inset-0 z-30 flex items-center justify-center bg-jet/80 border border-dashed border-gold/50 pointer-events-none">
+                        <span className="text-xs font-mono text-gold uppercase tracking-widest">Drop files to attach</span>
+                    </div>
+                )}
                 {/* Decorative corners */}
                 <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-gold/30"></div>
                 <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-gold/30"></div>
@@ -506,17 +930,55 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             {currentMode.id === ModeType.MARKET_RESEARCH && <div className="absolute -top-1 -right-1 w-2 h-2 bg-blue-400 rounded-full animate-pulse"></div>}
                         </button>
 
-                         <button className="p-2 text-gray-500 hover:text-gray-200 transition-colors" title="Attachments">
-                            <Paperclip size={18} onClick={() => fileInputRef.current?.click()} />
-                            <input type="file" ref={fileInputRef} className="hidden" />
+                         <button 
+                            onClick={() => fileInputRef.current?.click()}
+                            className={`p-2 transition-colors relative ${pendingAttachments.length > 0 ? 'text-gold' : 'text-gray-500 hover:text-gray-200'}`}
+                            title="Attachments"
+                        >
+                            <Paperclip size={18} />
+                            {pendingAttachments.length > 0 && (
+                                <span className="absolute -top-1 -right-1 text-[9px] font-mono text-jet bg-gold rounded-full w-3.5 h-3.5 flex items-center justify-center">{pendingAttachments.length}</span>
+                            )}
                         </button>
+                        <input 
+                            type="file" 
+                            ref={fileInputRef} 
+                            className="hidden" 
+                            multiple 
+                            accept={ACCEPTED_FILE_TYPES}
+                            onChange={handleFileInputChange}
+                        />
                     </div>
 
                     <div className="flex-1 relative">
+                        {/* Pending Attachments Preview */}
+                        {(pendingAttachments.length > 0 || attachmentError) && (
+                            <div className="px-4 pt-3 flex flex-wrap items-center gap-2">
+                                {pendingAttachments.map((att, idx) => (
+                                    <div key={idx} className="relative group/att flex items-center gap-2 bg-black/40 border border-white/10 rounded-sm pr-6 text-[10px] font-mono text-gray-400">
+                                        {isImageAttachment(att) 
+                                            ? <img src={attachmentSrc(att)} alt={att.name} className="w-10 h-10 object-cover rounded-l-sm" />
+                                            : <div className="w-10 h-10 flex items-center justify-center"><FileText size={14} className="text-gold-dim" /></div>}
+                                        <span className="truncate max-w-[120px]">{att.name}</span>
+                                        <button 
+                                            onClick={() => removeAttachment(idx)}
+                                            className="absolute top-1 right-1 text-gray-500 hover:text-red-400"
+                                            title="Remove"
+                                        >
+                                            <X size={10} />
+                                        </button>
+                                    </div>
+                                ))}
+                                {attachmentError && (
+                                    <span className="text-[10px] font-mono text-red-400">{attachmentError}</span>
+                                )}
+                            </div>
+                        )}
                         <textarea
                             value={inputText}
                             onChange={(e) => setInputText(e.target.value)}
                             onKeyDown={handleKeyDown}
+                            onPaste={handlePaste}
                             placeholder={isRecording ? "Słucham..." : (currentMode.id === ModeType.IMAGE_GEN ? "Opisz obraz do wygenerowania..." : `Wpisz polecenie dla ${currentMode.name}...`)}
                             className="w-full bg-transparent text-gray-200 placeholder-gray-600 font-sans text-sm px-4 py-4 resize-none focus:outline-none min-h-[140px] pr-24" 
                             rows={1}
@@ -532,20 +994,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 <Mic size={20} />
                              </button>
 
-                            {/* Send Button - Gold Glow, No Border */}
-                            <button 
-                                onClick={handleSend}
-                                disabled={!inputText.trim() && !isTyping}
-                                className={`p-2 transition-all duration-300 ${inputText.trim() ? 'text-gold drop-shadow-[0_0_10px_rgba(214,179,118,0.8)] hover:scale-105' : 'text-gray-600 cursor-not-allowed'}`}
-                            >
-                                {isTyping ? <AudioLines size={20} className="animate-pulse" /> : <Send size={20} />}
-                            </button>
+                             {/* Preview before send */}
+                             <button 
+                                onClick={() => setPreviewBeforeSend(!previewBeforeSend)}
+                                className={`transition-all duration-300 ${previewBeforeSend ? 'text-gold' : 'text-gray-500 hover:text-gray-200'}`}
+                                title={previewBeforeSend ? 'Preview before send: on' : 'Preview before send: off'}
+                             >
+                                <ScanSearch size={20} />
+                             </button>
+
+                            {/* Send Button - Gold Glow, No Border. Turns into Stop while generating */}
+                            {isTyping ? (
+                                <button 
+                                    onClick={onStop}
+                                    className="p-2 text-red-400 hover:text-red-300 transition-all duration-300 hover:scale-105 relative"
+                                    title="Stop generating"
+                                >
+                                    <AudioLines size={20} className="animate-pulse opacity-30 absolute inset-2" />
+                                    <Square size={20} className="relative" />
+                                </button>
+                            ) : (
+                                <button 
+                                    onClick={() => handleSend()}
+                                    disabled={!canSend}
+                                    className={`p-2 transition-all duration-300 ${canSend ? 'text-gold drop-shadow-[0_0_10px_rgba(214,179,118,0.8)] hover:scale-105' : 'text-gray-600 cursor-not-allowed'}`}
+                                >
+                                    <Send size={20} />
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
             </div>
         </div>
       </div>
+
+      {inspected && (
+        <PromptInspector
+          snapshot={inspected.snapshot}
+          messages={messages}
+          onClose={() => setInspected(null)}
+          onConfirm={inspected.preview ? () => handleSend(true) : undefined}
+        />
+      )}
     </div>
   );
 };
@@ -557,6 +1048,18 @@ const ActionButton = ({ icon, label, onClick, active, tooltip }: any) => (
     </button>
 );
 
+const BranchNav = ({ point, disabled, onSwitch }: { point: BranchPoint, disabled: boolean, onSwitch: (messageId: string) => void }) => (
+    <div className="inline-flex items-center gap-1 text-[10px] font-mono text-gray-500" title="Alternative branches">
+        <button onClick={() => onSwitch(point.siblingIds[point.index - 1])} disabled={disabled || point.index === 0} className="p-0.5 hover:text-gold disabled:opacity-30">
+            <ChevronLeft size={12} />
+        </button>
+        <span>{point.index + 1}/{point.siblingIds.length}</span>
+        <button onClick={() => onSwitch(point.siblingIds[point.index + 1])} disabled={disabled || point.index === point.siblingIds.length - 1} className="p-0.5 hover:text-gold disabled:opacity-30">
+            <ChevronRight size={12} />
+        </button>
+    </div>
+);
+
 const SuggestionBox = ({ icon, text, sub, onClick }: any) => (
     <button onClick={onClick} className="flex flex-col gap-2 p-5 glass-panel hover:bg-white/5 rounded-none text-left transition-all group border border-white/5 hover:border-gold/30">
         <div className="flex items-center gap-3">
@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2, FileText, Loader2 } from 'lucide-react';
+import { KnowledgeDocument, KnowledgeScope, Project } from '../types';
+import { MODES } from '../constants';
+import { KNOWLEDGE_FILE_TYPES, addKnowledgeDocument, deleteKnowledgeDocument, loadKnowledge, setKnowledgeScope } from '../services/knowledgeService';
+
+interface KnowledgeViewProps {
+  project: Project;
+}
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const KnowledgeView: React.FC<KnowledgeViewProps> = ({ project }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>(() => loadKnowledge(project.id));
+  const [uploadScope, setUploadScope] = useState<KnowledgeScope>('shared');
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const apply = (all: KnowledgeDocument[]) => setDocuments(all.filter(d => d.projectId === project.id));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsUploading(true);
+    setError(null);
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        apply(await addKnowledgeDocument(project.id, file, uploadScope));
+      } catch (e: any) {
+        problems.push(e.message);
+      }
+    }
+    setError(problems.length ? problems.join('\n') : null);
+    setIsUploading(false);
+  };
+
+  const selectClass = "bg-black/50 border border-white/10 text-[10px] font-mono text-gray-300 p-1.5 rounded-sm focus:border-gold focus:outline-none";
+  const scopeOptions = (
+    <>
+      <option value="shared">Shared (all modes)</option>
+      {MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name} only</option>)}
+    </>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2">
+        <select value={uploadScope} onChange={(e) => setUploadScope(e.target.value as KnowledgeScope)} className={selectClass}>
+          {scopeOptions}
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="flex items-center gap-1.5 text-[10px] font-mono text-gold-dim hover:text-gold border border-gold/20 hover:border-gold/40 px-3 py-1.5 rounded-sm uppercase disabled:opacity-40"
+        >
+          {isUploading ? <Loader2 size={11} className="animate-spin" /> : <Upload size={11} />} Add Documents
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={KNOWLEDGE_FILE_TYPES}
+          className="hidden"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+      <p className="text-[10px] font-mono text-gray-600">
+        txt, md, csv or pdf. Relevant parts are added to each turn and cited as [K1], [K2]...
+      </p>
+      {error && <p className="text-[10px] font-mono text-red-400 whitespace-pre-wrap">{error}</p>}
+
+      <div className="space-y-2">
+        {documents.length === 0 && <p className="text-[10px] font-mono text-gray-600 text-center py-6">NO DOCUMENTS</p>}
+        {documents.map(doc => (
+          <div key={doc.id} className="flex items-center gap-3 border border-white/5 rounded-sm px-3 py-2">
+            <FileText size={14} className="text-gold-dim shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-gray-200 truncate">{doc.name}</div>
+              <div className="text-[10px] font-mono text-gray-600">
+                {formatSize(doc.size)} · {doc.chunks.length} chunk(s) · {new Date(doc.addedAt).toLocaleDateString()}
+              </div>
+            </div>
+            <select value={doc.scope} onChange={(e) => apply(setKnowledgeScope(doc.id, e.target.value as KnowledgeScope))} className={selectClass}>
+              {scopeOptions}
+            </select>
+            <button onClick={() => apply(deleteKnowledgeDocument(doc.id))} className="p-1.5 text-gray-600 hover:text-red-400" title="Remove document">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeView;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Project } from '../types';
+import { currentMemoryVersion, describeAuthor, diffMemory, getMemoryHistory } from '../services/memoryHistoryService';
+
+interface MemoryHistoryViewProps {
+  project: Project;
+  focusVersion?: number;
+  onRollback: (version: number) => void;
+}
+
+const MemoryHistoryView: React.FC<MemoryHistoryViewProps> = ({ project, focusVersion, onRollback }) => {
+  const history = getMemoryHistory(project);
+  const latest = currentMemoryVersion(project);
+  const versionBefore = (version: number) => {
+    const index = history.findIndex(v => v.version === version);
+    return history[Math.max(0, index - 1)].version;
+  };
+
+  const initialTo = history.some(v => v.version === focusVersion) ? focusVersion! : latest;
+  const [toVersion, setToVersion] = useState(initialTo);
+  const [fromVersion, setFromVersion] = useState(versionBefore(initialTo));
+
+  const from = history.find(v => v.version === fromVersion)!;
+  const to = history.find(v => v.version === toVersion)!;
+  const changes = diffMemory(from.memory, to.memory);
+
+  const selectVersion = (version: number) => {
+    setToVersion(version);
+    setFromVersion(versionBefore(version));
+  };
+
+  const selectClass = "bg-black/50 border border-white/10 text-[10px] font-mono text-gray-300 p-1.5 rounded-sm focus:border-gold focus:outline-none";
+
+  return (
+    <div className="space-y-5">
+      {/* Version list */}
+      <div className="space-y-1">
+        {[...history].reverse().map(entry => (
+          <button
+            key={entry.version}
+            onClick={() => selectVersion(entry.version)}
+            className={`w-full text-left px-3 py-2 rounded-sm border transition-colors ${entry.version === toVersion ? 'border-gold/40 bg-gold/5' : 'border-white/5 hover:border-white/10'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-mono text-gold uppercase">
+                v{entry.version}{entry.version === latest && <span className="text-gray-500"> // current</span>}
+              </span>
+              <span className="text-[10px] font-mono text-gray-600">
+                {entry.timestamp ? new Date(entry.timestamp).toLocaleString() : '—'}
+              </span>
+            </div>
+            <div className="text-[11px] text-gray-400 truncate">
+              <span className="text-gold-dim">{describeAuthor(entry.author)}</span> · {entry.reason}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Diff */}
+      <div className="pt-4 border-t border-white/5">
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono text-gray-500 uppercase">
+          <History size={11} className="text-gold-dim" /> Compare
+          <select value={fromVersion} onChange={(e) => setFromVersion(Number(e.target.value))} className={selectClass}>
+            {history.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+          </select>
+          →
+          <select value={toVersion} onChange={(e) => setToVersion(Number(e.target.value))} className={selectClass}>
+            {history.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+          </select>
+          {toVersion !== latest && (
+            <button
+              onClick={() => onRollback(toVersion)}
+              className="ml-auto flex items-center gap-1 text-gold-dim hover:text-gold border border-gold/20 hover:border-gold/40 px-2 py-1 rounded-sm"
+              title={`Restore the memory of v${toVersion} as a new version`}
+            >
+              <RotateCcw size={10} /> Roll back to v{toVersion}
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {changes.length === 0 && (
+            <p className="text-[10px] font-mono text-gray-600 text-center py-4">NO DIFFERENCES</p>
+          )}
+          {changes.map(change => (
+            <div key={change.label}>
+              <span className="block text-[10px] font-mono text-gold-dim uppercase tracking-widest mb-1">{change.label}</span>
+              <div className="space-y-1 font-mono text-[11px] whitespace-pre-wrap break-words">
+                {change.before !== undefined && <div className="bg-red-500/10 text-red-300/80 px-2 py-1 rounded-sm">- {change.before}</div>}
+                {change.after !== undefined && <div className="bg-green-500/10 text-green-300/90 px-2 py-1 rounded-sm">+ {change.after}</div>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryHistoryView;
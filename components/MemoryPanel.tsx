@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Globe2, Lock, Save, History, Library, ArrowUpToLine } from 'lucide-react';
+import { ModeType, Project, ProjectMemory } from '../types';
+import { MODES } from '../constants';
+import { currentMemoryVersion, diffMemory } from '../services/memoryHistoryService';
+import { exampleModeData, validateModeData } from '../services/memorySchemaService';
+import MemoryHistoryView from './MemoryHistoryView';
+import KnowledgeView from './KnowledgeView';
+
+interface MemoryPanelProps {
+  project: Project;
+  focusVersion?: number; // Opens the history tab on this version
+  onClose: () => void;
+  onSave: (memory: ProjectMemory, reason: string) => void;
+  onRollback: (version: number) => void;
+}
+
+type FactRow = { key: string; value: string };
+type Tab = 'shared' | 'knowledge' | 'history' | ModeType;
+
+const toRows = (facts: Record<string, string>): FactRow[] => Object.entries(facts).map(([key, value]) => ({ key, value }));
+
+const toRecord = (rows: FactRow[]) => {
+  const record: Record<string, string> = {};
+  rows.forEach(f => { if (f.key.trim()) record[f.key.trim()] = f.value; });
+  return record;
+};
+
+const findDuplicates = (rows: FactRow[]) => rows.map(f => f.key.trim()).filter((k, i, all) => k && all.indexOf(k) !== i);
+
+const toPrivateFacts = (memory: ProjectMemory) => {
+  const rows: Partial<Record<ModeType, FactRow[]>> = {};
+  for (const mode of MODES) rows[mode.id] = toRows(memory.modeContext[mode.id]?.facts || {});
+  return rows;
+};
+
+const toDataDrafts = (memory: ProjectMemory) => {
+  const drafts: Partial<Record<ModeType, string>> = {};
+  for (const mode of MODES) {
+    const data = memory.modeContext[mode.id]?.data;
+    drafts[mode.id] = data === undefined ? '' : JSON.stringify(data, null, 2);
+  }
+  return drafts;
+};
+
+/**
+ * Parses a mode's structured data draft. Empty input clears the data.
+ */
+const parseData = (draft: string): { value?: any; error?: string } => {
+  if (!draft.trim()) return { value: undefined };
+  try {
+    return { value: JSON.parse(draft) };
+  } catch (e: any) {
+    return { error: e.message };
+  }
+};
+
+/**
+ * Checks a data draft for JSON syntax errors first, then against the mode's schema.
+ */
+const checkDataDraft = (mode: ModeType, draft: string): string | undefined => {
+  const { value, error } = parseData(draft);
+  if (error) return `Invalid JSON: ${error}`;
+  if (value === undefined) return undefined;
+  const violations = validateModeData(mode, value);
+  return violations.length > 0 ? violations.join('\n') : undefined;
+};
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ project, focusVersion, onClose, onSave, onRollback }) => {
+  const [tab, setTab] = useState<Tab>(focusVersion !== undefined ? 'history' : 'shared');
+  const [reason, setReason] = useState('');
+  const [summary, setSummary] = useState(project.memory.sharedContext.summary);
+  const [facts, setFacts] = useState<FactRow[]>(toRows(project.memory.sharedContext.keyFacts));
+  const [modeContext, setModeContext] = useState<ProjectMemory['modeContext']>(structuredClone(project.memory.modeContext));
+  const [dataDrafts, setDataDrafts] = useState(toDataDrafts(project.memory));
+  const [privateFacts, setPrivateFacts] = useState(toPrivateFacts(project.memory));
+  const [sharing, setSharing] = useState<NonNullable<ProjectMemory['sharing']>>(project.memory.sharing || {});
+  const [noChanges, setNoChanges] = useState(false);
+
+  const dataErrors = Object.fromEntries(
+    MODES.map(m => [m.id, checkDataDraft(m.id, dataDrafts[m.id] || '')])
+  ) as Partial<Record<ModeType, string | undefined>>;
+  const duplicateKeys = findDuplicates(facts);
+  const privateDuplicates = Object.fromEntries(
+    MODES.map(m => [m.id, findDuplicates(privateFacts[m.id] || [])])
+  ) as Partial<Record<ModeType, string[]>>;
+  const hasErrors = Object.values(dataErrors).some(Boolean) || duplicateKeys.length > 0
+    || Object.values(privateDuplicates).some(keys => keys?.length);
+
+  const updateFact = (index: number, patch: Partial<FactRow>) =>
+    setFacts(prev => prev.map((f, i) => i === index ? { ...f, ...patch } : f));
+
+  const updatePrivateFacts = (mode: ModeType, update: (rows: FactRow[]) => FactRow[]) =>
+    setPrivateFacts(prev => ({ ...prev, [mode]: update(prev[mode] || []) }));
+
+  const suggestReason = (text: string) => setReason(prev => prev.trim() ? prev : text);
+
+  // Moves a mode-private fact into the shared key facts, visible to every mode
+  const promoteFact = (mode: ModeType, index: number) => {
+    const fact = (privateFacts[mode] || [])[index];
+    if (!fact) return;
+    updatePrivateFacts(mode, rows => rows.filter((_, i) => i !== index));
+    setFacts(prev => [...prev, fact]);
+    suggestReason(`Promoted "${fact.key}" from ${mode} to shared`);
+  };
+
+  // Moves a shared key fact back into one mode's private facts
+  const demoteFact = (index: number, mode: ModeType) => {
+    const fact = facts[index];
+    if (!fact) return;
+    setFacts(prev => prev.filter((_, i) => i !== index));
+    updatePrivateFacts(mode, rows => [...rows, fact]);
+    suggestReason(`Demoted "${fact.key}" from shared to ${mode}`);
+  };
+
+  const toggleSource = (reader: ModeType, source: ModeType) =>
+    setSharing(prev => {
+      const sources = prev[reader] || [];
+      const next = sources.includes(source) ? sources.filter(s => s !== source) : [...sources, source];
+      return { ...prev, [reader]: next };
+    });
+
+  const updateModeField = (mode: ModeType, field: 'specificInstructions' | 'lastState', value: string) =>
+    setModeContext(prev => ({ ...prev, [mode]: { ...prev[mode], [field]: value || undefined } }));
+
+  const handleSave = () => {
+    if (hasErrors) return;
+
+    const nextModeContext: ProjectMemory['modeContext'] = {};
+    for (const mode of MODES) {
+      const modeFacts = toRecord(privateFacts[mode.id] || []);
+      const entry = {
+        ...modeContext[mode.id],
+        facts: Object.keys(modeFacts).length > 0 ? modeFacts : undefined,
+        data: parseData(dataDrafts[mode.id] || '').value
+      };
+      // Drop modes whose memory is now completely empty
+      if (entry.specificInstructions || entry.lastState || entry.facts || entry.data !== undefined) {
+        nextModeContext[mode.id] = entry;
+      }
+    }
+
+    const nextSharing: ProjectMemory['sharing'] = {};
+    for (const [reader, sources] of Object.entries(sharing) as [ModeType, ModeType[]][]) {
+      if (sources.length > 0) nextSharing[reader] = sources;
+    }
+
+    const next: ProjectMemory = {
+      ...project.memory,
+      sharedContext: { summary, keyFacts: toRecord(facts) },
+      modeContext: nextModeContext,
+      sharing: Object.keys(nextSharing).length > 0 ? nextSharing : undefined
+    };
+    // Saving without edits would only add an empty version to the history
+    if (diffMemory(project.memory, next).length === 0) {
+      setNoChanges(true);
+      setTimeout(() => setNoChanges(false), 2000);
+      return;
+    }
+    onSave(next, reason.trim() || 'Manual edit');
+  };
+
+  const inputClass = "w-full bg-black/50 border border-white/10 text-xs text-gray-200 p-2 rounded-sm focus:border-gold focus:outline-none placeholder:text-gray-600";
+  const labelClass = "block text-[10px] font-mono text-gray-500 mb-1 uppercase";
+  const activeMode = MODES.find(m => m.id === tab);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-xl h-full bg-jet border-l border-gold/30 shadow-[0_0_30px_rgba(214,179,118,0.1)] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div>
+            <span className="block text-xs font-display font-bold text-gold uppercase tracking-widest">Memory // {project.name} <span className="text-gray-500">v{currentMemoryVersion(project)}</span></span>
+            <span className="text-[10px] font-mono text-gray-600">Used by every mode on the next turn</span>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><X size={14} /></button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex flex-wrap gap-1 px-6 pt-4">
+          <TabButton active={tab === 'shared'} onClick={() => setTab('shared')} icon={<Globe2 size={11} />} label="Shared" />
+          {MODES.map(mode => (
+            <TabButton
+              key={mode.id}
+              active={tab === mode.id}
+              onClick={() => setTab(mode.id)}
+              icon={<Lock size={11} />}
+              label={mode.name}
+              error={!!dataErrors[mode.id] || !!privateDuplicates[mode.id]?.length}
+            />
+          ))}
+          <TabButton active={tab === 'knowledge'} onClick={() => setTab('knowledge')} icon={<Library size={11} />} label="Knowledge" />
+          <TabButton active={tab === 'history'} onClick={() => setTab('history')} icon={<History size={11} />} label="History" />
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-5">
+          {tab === 'knowledge' ? (
+            <KnowledgeView project={project} />
+          ) : tab === 'history' ? (
+            <MemoryHistoryView project={project} focusVersion={focusVersion} onRollback={onRollback} />
+          ) : tab === 'shared' ? (
+            <>
+              <div>
+                <label className={labelClass}>Summary</label>
+                <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={4} className={`${inputClass} resize-y`} placeholder="What every mode should know about this project" />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className={labelClass}>Key Facts</label>
+                  <button onClick={() => setFacts([...facts, { key: '', value: '' }])} className="flex items-center gap-1 text-[10px] font-mono text-gold-dim hover:text-gold">
+                    <Plus size={10} /> ADD FACT
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {facts.length === 0 && <p className="text-[10px] font-mono text-gray-600">NO KEY FACTS</p>}
+                  {facts.map((fact, i) => (
+                    <div key={i} className="flex gap-2 items-start">
+                      <input value={fact.key} onChange={(e) => updateFact(i, { key: e.target.value })} className={`${inputClass} w-1/3 ${duplicateKeys.includes(fact.key.trim()) ? 'border-red-500/60' : ''}`} placeholder="Key" />
+                      <input value={fact.value} onChange={(e) => updateFact(i, { value: e.target.value })} className={`${inputClass} flex-1`} placeholder="Value" />
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && demoteFact(i, e.target.value as ModeType)}
+                        className="bg-black/50 border border-white/10 text-[10px] font-mono text-gray-500 p-2 rounded-sm focus:border-gold focus:outline-none w-24"
+                        title="Make this fact private to one mode"
+                      >
+                        <option value="">Demote…</option>
+                        {MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+                      </select>
+                      <button onClick={() => setFacts(facts.filter((_, j) => j !== i))} className="p-2 text-gray-600 hover:text-red-400" title="Remove fact">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  {duplicateKeys.length > 0 && (
+                    <p className="text-[10px] font-mono text-red-400">Duplicate keys: {duplicateKeys.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : activeMode && (
+            <>
+              <div>
+                <label className={labelClass}>Specific Instructions</label>
+                <textarea
+                  value={modeContext[activeMode.id]?.specificInstructions || ''}
+                  onChange={(e) => updateModeField(activeMode.id, 'specificInstructions', e.target.value)}
+                  rows={3}
+                  className={`${inputClass} resize-y`}
+                  placeholder={`Private guidance for ${activeMode.name}`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Last Known State</label>
+                <textarea
+                  value={modeContext[activeMode.id]?.lastState || ''}
+                  onChange={(e) => updateModeField(activeMode.id, 'lastState', e.target.value)}
+                  rows={2}
+                  className={`${inputClass} resize-y`}
+                  placeholder="Where the work in this mode left off"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className={labelClass}>Private Facts</label>
+                  <button onClick={() => updatePrivateFacts(activeMode.id, rows => [...rows, { key: '', value: '' }])} className="flex items-center gap-1 text-[10px] font-mono text-gold-dim hover:text-gold">
+                    <Plus size={10} /> ADD FACT
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {(privateFacts[activeMode.id] || []).length === 0 && <p className="text-[10px] font-mono text-gray-600">NO PRIVATE FACTS</p>}
+                  {(privateFacts[activeMode.id] || []).map((fact, i) => (
+                    <div key={i} className="flex gap-2 items-start">
+                      <input
+                        value={fact.key}
+                        onChange={(e) => updatePrivateFacts(activeMode.id, rows => rows.map((f, j) => j === i ? { ...f, key: e.target.value } : f))}
+                        className={`${inputClass} w-1/3 ${privateDuplicates[activeMode.id]?.includes(fact.key.trim()) ? 'border-red-500/60' : ''}`}
+                        placeholder="Key"
+                      />
+                      <input
+                        value={fact.value}
+                        onChange={(e) => updatePrivateFacts(activeMode.id, rows => rows.map((f, j) => j === i ? { ...f, value: e.target.value } : f))}
+                        className={`${inputClass} flex-1`}
+                        placeholder="Value"
+                      />
+                      <button onClick={() => promoteFact(activeMode.id, i)} className="p-2 text-gray-600 hover:text-gold" title="Promote to shared memory">
+                        <ArrowUpToLine size={12} />
+                      </button>
+                      <button onClick={() => updatePrivateFacts(activeMode.id, rows => rows.filter((_, j) => j !== i))} className="p-2 text-gray-600 hover:text-red-400" title="Remove fact">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  {!!privateDuplicates[activeMode.id]?.length && (
+                    <p className="text-[10px] font-mono text-red-400">Duplicate keys: {privateDuplicates[activeMode.id]!.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Can Read Private Memory Of</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {MODES.filter(m => m.id !== activeMode.id).map(source => (
+                    <label key={source.id} className="flex items-center gap-1.5 text-[11px] text-gray-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={(sharing[activeMode.id] || []).includes(source.id)}
+                        onChange={() => toggleSource(activeMode.id, source.id)}
+                        className="accent-[#d6b376]"
+                      />
+                      {source.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-[10px] font-mono text-gray-600">Their facts, structured data and last state are added read-only. Instructions stay private.</p>
+              </div>
+              <div>
+                <label className={labelClass}>Structured Data (JSON)</label>
+                <textarea
+                  value={dataDrafts[activeMode.id] || ''}
+                  onChange={(e) => setDataDrafts({ ...dataDrafts, [activeMode.id]: e.target.value })}
+                  rows={10}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono resize-y ${dataErrors[activeMode.id] ? 'border-red-500/60' : ''}`}
+                  placeholder={JSON.stringify(exampleModeData(activeMode.id), null, 2)}
+                />
+                {dataErrors[activeMode.id] && (
+                  <p className="mt-1 text-[10px] font-mono text-red-400 whitespace-pre-wrap">{dataErrors[activeMode.id]}</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-white/10 flex justify-end gap-2">
+          {tab !== 'history' && tab !== 'knowledge' && (
+            <input value={reason} onChange={(e) => setReason(e.target.value)} className={`${inputClass} flex-1`} placeholder="Reason for change (optional)" />
+          )}
+          {noChanges && <span className="self-center text-[10px] font-mono text-gray-500 uppercase">No changes</span>}
+          <button onClick={onClose} className="px-4 py-2 text-xs font-mono text-gray-400 hover:text-white uppercase">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={hasErrors}
+            className="flex items-center gap-2 bg-gold/10 hover:bg-gold/20 border border-gold/30 text-gold text-xs font-display font-bold tracking-wider uppercase px-4 py-2 rounded-sm transition-all disabled:opacity-40"
+          >
+            <Save size={12} /> Save Memory
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TabButton = ({ active, onClick, icon, label, error }: { active: boolean, onClick: () => void, icon: React.ReactNode, label: string, error?: boolean }) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-mono uppercase rounded-sm border transition-colors ${active ? 'border-gold/40 text-gold bg-gold/10' : 'border-white/5 text-gray-500 hover:text-gray-300'} ${error ? 'text-red-400' : ''}`}
+  >
+    {icon} {label}
+  </button>
+);
+
+export default MemoryPanel;
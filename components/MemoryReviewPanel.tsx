@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { X, Check, Ban, BrainCircuit } from 'lucide-react';
+import { MemoryProposal } from '../types';
+
+interface MemoryReviewPanelProps {
+  projectName: string;
+  proposals: MemoryProposal[];
+  onApply: (accepted: MemoryProposal[]) => void;
+  onDismiss: () => void;
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+const describeProposal = (proposal: MemoryProposal) => {
+  switch (proposal.kind) {
+    case 'summary': return 'Shared · Summary';
+    case 'keyFact': return `Shared · Key Fact · ${proposal.key}`;
+    case 'lastState': return `${proposal.mode} · Last State`;
+    case 'data': return `${proposal.mode} · Data · ${proposal.path}`;
+  }
+};
+
+const MemoryReviewPanel: React.FC<MemoryReviewPanelProps> = ({ projectName, proposals, onApply, onDismiss }) => {
+  const [decisions, setDecisions] = useState<Record<string, boolean>>(
+    Object.fromEntries(proposals.map(p => [p.id, true]))
+  );
+  const acceptedCount = proposals.filter(p => decisions[p.id]).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onDismiss}>
+      <div className="w-full max-w-xl h-full bg-jet border-l border-gold/30 shadow-[0_0_30px_rgba(214,179,118,0.1)] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div>
+            <span className="flex items-center gap-2 text-xs font-display font-bold text-gold uppercase tracking-widest">
+              <BrainCircuit size={14} /> Proposed Memory Updates
+            </span>
+            <span className="text-[10px] font-mono text-gray-600">{projectName} // accept or reject each change</span>
+          </div>
+          <button onClick={onDismiss} className="text-gray-500 hover:text-white"><X size={14} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-4">
+          {proposals.length === 0 && (
+            <p className="text-[10px] font-mono text-gray-600 text-center py-8">NO CHANGES PROPOSED</p>
+          )}
+          {proposals.map(proposal => {
+            const accepted = decisions[proposal.id];
+            const before = formatValue(proposal.before);
+            const after = formatValue(proposal.after);
+            return (
+              <div key={proposal.id} className={`border rounded-sm p-4 transition-colors ${accepted ? 'border-gold/30 bg-gold/5' : 'border-white/5 opacity-60'}`}>
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-[10px] font-mono text-gold-dim uppercase tracking-widest">{describeProposal(proposal)}</span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setDecisions({ ...decisions, [proposal.id]: true })}
+                      className={`p-1.5 rounded-sm border ${accepted ? 'border-green-500/40 text-green-400' : 'border-white/10 text-gray-600 hover:text-green-400'}`}
+                      title="Accept"
+                    >
+                      <Check size={12} />
+                    </button>
+                    <button
+                      onClick={() => setDecisions({ ...decisions, [proposal.id]: false })}
+                      className={`p-1.5 rounded-sm border ${!accepted ? 'border-red-500/40 text-red-400' : 'border-white/10 text-gray-600 hover:text-red-400'}`}
+                      title="Reject"
+                    >
+                      <Ban size={12} />
+                    </button>
+                  </div>
+                </div>
+                <div className="space-y-1 font-mono text-[11px] whitespace-pre-wrap break-words">
+                  {before && <div className="bg-red-500/10 text-red-300/80 px-2 py-1 rounded-sm line-through decoration-red-400/40">- {before}</div>}
+                  {proposal.after === null
+                    ? <div className="text-red-400 px-2 py-1">(remove)</div>
+                    : <div className="bg-green-500/10 text-green-300/90 px-2 py-1 rounded-sm">+ {after}</div>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/10 flex justify-end gap-2">
+          <button onClick={onDismiss} className="px-4 py-2 text-xs font-mono text-gray-400 hover:text-white uppercase">Discard All</button>
+          <button
+            onClick={() => onApply(proposals.filter(p => decisions[p.id]))}
+            disabled={acceptedCount === 0}
+            className="bg-gold/10 hover:bg-gold/20 border border-gold/30 text-gold text-xs font-display font-bold tracking-wider uppercase px-4 py-2 rounded-sm transition-all disabled:opacity-40"
+          >
+            Apply {acceptedCount} Change{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryReviewPanel;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { X, Trash2, Unlink, CopyPlus, GitMerge, AlertTriangle } from 'lucide-react';
+import { BundleImportStrategy, Project, ProjectBundle, ResearchSettings, RetentionPolicy, RetentionSettings } from '../types';
+import { DEFAULT_RESEARCH_SETTINGS, DEFAULT_RETENTION } from '../constants';
+
+export type ProjectDialogState =
+  | { kind: 'create' }
+  | { kind: 'edit'; project: Project }
+  | { kind: 'delete'; project: Project; sessionCount: number }
+  | { kind: 'import'; bundle: ProjectBundle; conflict: Project }
+  | { kind: 'import_error'; message: string };
+
+interface ProjectDialogProps {
+  state: ProjectDialogState;
+  onClose: () => void;
+  onSubmit: (values: { name: string; description: string; researchSettings: Partial<ResearchSettings>; autoExtractMemory: boolean; retention: RetentionSettings }) => void;
+  onConfirmDelete: (policy: 'detach' | 'delete') => void;
+  onConfirmImport: (strategy: BundleImportStrategy) => void;
+}
+
+const parseDomains = (value: string) => value.split(/[\s,]+/).map(d => d.trim()).filter(Boolean);
+
+const ProjectDialog: React.FC<ProjectDialogProps> = ({ state, onClose, onSubmit, onConfirmDelete, onConfirmImport }) => {
+  const project = state.kind === 'edit' || state.kind === 'delete' ? state.project : null;
+  const research = { ...DEFAULT_RESEARCH_SETTINGS, ...project?.researchSettings };
+  const retention = { ...DEFAULT_RETENTION, ...project?.retention };
+
+  const [name, setName] = useState(project?.name || '');
+  const [description, setDescription] = useState(project?.description || '');
+  const [autoExtractMemory, setAutoExtractMemory] = useState(project?.autoExtractMemory ?? false);
+  const [searchDepth, setSearchDepth] = useState(research.searchDepth);
+  const [maxResults, setMaxResults] = useState(research.maxResults);
+  const [maxQueries, setMaxQueries] = useState(research.maxQueries);
+  const [extractTopResults, setExtractTopResults] = useState(research.extractTopResults);
+  const [includeDomains, setIncludeDomains] = useState(research.includeDomains.join(', '));
+  const [excludeDomains, setExcludeDomains] = useState(research.excludeDomains.join(', '));
+  const [retentionPolicy, setRetentionPolicy] = useState(retention.policy);
+  const [retentionDays, setRetentionDays] = useState(retention.days);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      description: description.trim(),
+      autoExtractMemory,
+      retention: { policy: retentionPolicy, days: Math.max(1, retentionDays) },
+      researchSettings: {
+        searchDepth,
+        maxResults,
+        maxQueries,
+        extractTopResults,
+        includeDomains: parseDomains(includeDomains),
+        excludeDomains: parseDomains(excludeDomains)
+      }
+    });
+  };
+
+  const inputClass = "w-full bg-black/50 border border-white/10 text-xs text-gray-200 p-2 rounded-sm focus:border-gold focus:outline-none placeholder:text-gray-600";
+  const labelClass = "block text-[10px] font-mono text-gray-500 mb-1 uppercase";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-md bg-jet border border-gold/30 shadow-[0_0_30px_rgba(214,179,118,0.1)] p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5 border-b border-white/10 pb-3">
+          <span className="text-xs font-display font-bold text-gold uppercase tracking-widest">
+            {state.kind === 'create' && 'New Context'}
+            {state.kind === 'edit' && 'Edit Context'}
+            {state.kind === 'delete' && 'Delete Context'}
+            {state.kind === 'import' && 'Import Context'}
+            {state.kind === 'import_error' && 'Import Failed'}
+          </span>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><X size={14} /></button>
+        </div>
+
+        {state.kind === 'import_error' ? (
+          <div className="flex gap-3 text-xs font-mono text-red-400 whitespace-pre-wrap">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            {state.message}
+          </div>
+        ) : state.kind === 'import' ? (
+          <div className="space-y-5">
+            <p className="text-sm text-gray-300">
+              A context with the same ID already exists: <span className="text-gold font-display">{state.conflict.name}</span>
+            </p>
+            <p className="text-xs font-mono text-gray-500">
+              The bundle holds {state.bundle.sessions.length} session(s), exported {new Date(state.bundle.exportedAt).toLocaleString()}.
+            </p>
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => onConfirmImport('copy')}
+                className="flex items-center justify-center gap-2 w-full border border-white/10 hover:border-gold/40 text-gray-300 hover:text-gold text-xs font-mono uppercase py-2.5 rounded-sm transition-colors"
+              >
+                <CopyPlus size={12} /> Import as a new context
+              </button>
+              <button
+                onClick={() => onConfirmImport('merge')}
+                className="flex items-center justify-center gap-2 w-full border border-white/10 hover:border-gold/40 text-gray-300 hover:text-gold text-xs font-mono uppercase py-2.5 rounded-sm transition-colors"
+              >
+                <GitMerge size={12} /> Merge into existing context
+              </button>
+            </div>
+          </div>
+        ) : state.kind === 'delete' ? (
+          <div className="space-y-5">
+            <p className="text-sm text-gray-300">
+              Delete <span className="text-gold font-display">{state.project.name}</span> and its memory?
+            </p>
+            <p className="text-xs font-mono text-gray-500">
+              {state.sessionCount} session(s) belong to this context.
+            </p>
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => onConfirmDelete('detach')}
+                className="flex items-center justify-center gap-2 w-full border border-white/10 hover:border-gold/40 text-gray-300 hover:text-gold text-xs font-mono uppercase py-2.5 rounded-sm transition-colors"
+              >
+                <Unlink size={12} /> Delete context, keep sessions
+              </button>
+              <button
+                onClick={() => onConfirmDelete('delete')}
+                className="flex items-center justify-center gap-2 w-full border border-red-500/30 hover:bg-red-500/10 text-red-400 text-xs font-mono uppercase py-2.5 rounded-sm transition-colors"
+              >
+                <Trash2 size={12} /> Delete context, move sessions to trash
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input autoFocus value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Product Launch Q3" />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={`${inputClass} resize-none`} placeholder="What is this context about?" />
+            </div>
+
+            <label className="flex items-center gap-2 text-[11px] font-mono text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={autoExtractMemory} onChange={(e) => setAutoExtractMemory(e.target.checked)} className="accent-[#d6b376]" />
+              Propose memory updates after every reply
+            </label>
+
+            <div className="pt-2 border-t border-white/5">
+              <span className="block text-[10px] font-display font-bold text-gold-dim uppercase tracking-[0.2em] mb-3">Session Retention</span>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Keep Sessions</label>
+                  <select value={retentionPolicy} onChange={(e) => setRetentionPolicy(e.target.value as RetentionPolicy)} className={inputClass}>
+                    <option value="forever">Forever</option>
+                    <option value="unpinned">Pinned forever, others N days</option>
+                    <option value="days">All for N days</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Days (N)</label>
+                  <input type="number" min={1} value={retentionDays} disabled={retentionPolicy === 'forever'} onChange={(e) => setRetentionDays(Number(e.target.value))} className={`${inputClass} disabled:opacity-40`} />
+                </div>
+              </div>
+              <p className="mt-2 text-[10px] font-mono text-gray-600">Expired and deleted sessions stay in the trash for 30 days. Archived sessions never expire.</p>
+            </div>
+
+            <div className="pt-2 border-t border-white/5">
+              <span className="block text-[10px] font-display font-bold text-gold-dim uppercase tracking-[0.2em] mb-3">Research (Tavily)</span>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Depth</label>
+                  <select value={searchDepth} onChange={(e) => setSearchDepth(e.target.value as ResearchSettings['searchDepth'])} className={inputClass}>
+                    <option value="basic">Basic</option>
+                    <option value="advanced">Advanced</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Max Results</label>
+                  <input type="number" min={1} max={20} value={maxResults} onChange={(e) => setMaxResults(Number(e.target.value))} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Queries</label>
+                  <input type="number" min={1} max={5} value={maxQueries} onChange={(e) => setMaxQueries(Number(e.target.value))} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Extract Top N</label>
+                  <input type="number" min={0} max={5} value={extractTopResults} onChange={(e) => setExtractTopResults(Number(e.target.value))} className={inputClass} />
+                </div>
+              </div>
+              <div className="mt-3 space-y-3">
+                <div>
+                  <label className={labelClass}>Include Domains</label>
+                  <input value={includeDomains} onChange={(e) => setIncludeDomains(e.target.value)} className={inputClass} placeholder="example.com, statista.com" />
+                </div>
+                <div>
+                  <label className={labelClass}>Exclude Domains</label>
+                  <input value={excludeDomains} onChange={(e) => setExcludeDomains(e.target.value)} className={inputClass} placeholder="pinterest.com" />
+                </div>
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="w-full bg-gold/10 hover:bg-gold/20 border border-gold/30 text-gold text-xs font-display font-bold tracking-wider uppercase py-3 rounded-sm transition-all disabled:opacity-40"
+            >
+              {state.kind === 'create' ? 'Create Context' : 'Save Changes'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDialog;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { X, ScanSearch, Send, Copy, Check } from 'lucide-react';
+import { Message, PromptSnapshot, Role } from '../types';
+
+interface PromptInspectorProps {
+  snapshot: PromptSnapshot;
+  messages: Message[]; // Used to resolve the history message IDs
+  onClose: () => void;
+  onConfirm?: () => void; // Set when previewing before send
+}
+
+const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+const PromptInspector: React.FC<PromptInspectorProps> = ({ snapshot, messages, onClose, onConfirm }) => {
+  const [copied, setCopied] = useState(false);
+  const history = snapshot.historyMessageIds.map(id => messages.find(m => m.id === id));
+  const totalTokens = snapshot.tokens.reduce((acc, s) => acc + s.tokens, 0);
+  const { model, ...modelConfig } = snapshot.model;
+  const config = {
+    ...modelConfig,
+    ...(snapshot.imageSettings && { imageSettings: snapshot.imageSettings }),
+    ...(snapshot.researchSettings && { researchSettings: snapshot.researchSettings })
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(snapshot.systemInstruction);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const sectionTitle = "block text-[10px] font-display font-bold text-gold-dim uppercase tracking-[0.2em]";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-2xl h-full bg-jet border-l border-gold/30 shadow-[0_0_30px_rgba(214,179,118,0.1)] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div>
+            <span className="flex items-center gap-2 text-xs font-display font-bold text-gold uppercase tracking-widest">
+              <ScanSearch size={14} /> {onConfirm ? 'Preview Request' : 'Prompt Inspector'}
+            </span>
+            <span className="text-[10px] font-mono text-gray-600">{snapshot.provider} // {model} // {snapshot.operation}</span>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><X size={14} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+          {/* Token breakdown */}
+          <div>
+            <span className={`${sectionTitle} mb-2`}>Tokens (estimated)</span>
+            <div className="space-y-1.5">
+              {snapshot.tokens.filter(s => s.tokens > 0).map(section => (
+                <div key={section.label} className="flex items-center gap-3 text-[10px] font-mono">
+                  <span className="w-36 text-gray-400 uppercase">{section.label}</span>
+                  <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-gold/60" style={{ width: `${Math.min(100, (section.tokens / (totalTokens || 1)) * 100)}%` }} />
+                  </div>
+                  <span className="w-12 text-right text-gray-300">{formatTokens(section.tokens)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between pt-2 border-t border-white/5 text-[10px] font-mono text-gold">
+                <span>TOTAL</span>
+                <span>{formatTokens(totalTokens)} / {formatTokens(snapshot.contextWindow)} ({Math.round((totalTokens / snapshot.contextWindow) * 100)}%)</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Model config */}
+          <div>
+            <span className={`${sectionTitle} mb-2`}>Model Config</span>
+            <pre className="bg-black/50 border border-white/5 p-3 rounded-sm text-[11px] font-mono text-gray-300 whitespace-pre-wrap">
+              {JSON.stringify({ model, ...config }, null, 2)}
+            </pre>
+          </div>
+
+          {/* System instruction */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className={sectionTitle}>System Instruction</span>
+              <button onClick={handleCopy} className="flex items-center gap-1 text-[10px] font-mono text-gray-500 hover:text-gold">
+                {copied ? <Check size={10} className="text-green-500" /> : <Copy size={10} />} {copied ? 'COPIED' : 'COPY'}
+              </button>
+            </div>
+            <pre className="bg-black/50 border border-white/5 p-3 rounded-sm text-[11px] font-mono text-gray-300 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+              {snapshot.systemInstruction}
+            </pre>
+          </div>
+
+          {/* History */}
+          <div>
+            <span className={`${sectionTitle} mb-2`}>History ({history.length} messages)</span>
+            <div className="space-y-1">
+              {history.length === 0 && <p className="text-[10px] font-mono text-gray-600">NO HISTORY</p>}
+              {history.map((msg, i) => msg ? (
+                <div key={msg.id} className="flex gap-2 text-[11px]">
+                  <span className={`w-12 shrink-0 font-mono uppercase ${msg.role === Role.USER ? 'text-gray-500' : 'text-gold-dim'}`}>{msg.role}</span>
+                  <span className="text-gray-400 truncate">{msg.content || `(${msg.attachments?.length || 0} attachment(s))`}</span>
+                </div>
+              ) : (
+                <div key={snapshot.historyMessageIds[i]} className="text-[10px] font-mono text-gray-600">(message no longer in this session)</div>
+              ))}
+            </div>
+          </div>
+
+          {/* Prompt & attachments */}
+          <div>
+            <span className={`${sectionTitle} mb-2`}>Prompt</span>
+            <pre className="bg-black/50 border border-white/5 p-3 rounded-sm text-[11px] font-mono text-gray-300 whitespace-pre-wrap break-words">
+              {snapshot.prompt || '(empty)'}
+            </pre>
+            {snapshot.attachments.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {snapshot.attachments.map((att, i) => (
+                  <span key={i} className="bg-black/40 border border-white/10 px-2 py-1 rounded-sm text-[10px] font-mono text-gray-400">
+                    {att.name} · {att.type}{att.size !== undefined ? ` · ${Math.round(att.size / 1024)} KB` : ''}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {onConfirm && (
+          <div className="px-6 py-4 border-t border-white/10 flex items-center justify-end gap-2">
+            <span className="flex-1 text-[10px] font-mono text-gray-600">Older turns may still be compacted when the request is sent.</span>
+            <button onClick={onClose} className="px-4 py-2 text-xs font-mono text-gray-400 hover:text-white uppercase">Cancel</button>
+            <button
+              onClick={onConfirm}
+              className="flex items-center gap-2 bg-gold/10 hover:bg-gold/20 border border-gold/30 text-gold text-xs font-display font-bold tracking-wider uppercase px-4 py-2 rounded-sm transition-all"
+            >
+              <Send size={12} /> Send
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptInspector;
@@ -1,6 +1,9 @@
-import React from 'react';
-import { Home, LayoutTemplate, Compass, Wallet, History, MoreHorizontal, Plus, Download, Trash2, MessageSquare, FolderOpen } from 'lucide-react';
-import { ChatSession, Project } from '../types';
+import React, { useState, useRef } from 'react';
+import { Home, LayoutTemplate, Compass, Wallet, History, MoreHorizontal, Plus, Download, Trash2, MessageSquare, FolderOpen, Pencil, Copy, Archive, ArchiveRestore, ChevronDown, Upload, FileDown, Pin, PinOff, Clock, RotateCcw, SlidersHorizontal, X } from 'lucide-react';
+import { ChatSession, ModeType, Project, RetentionSettings, SessionExportFormat, SessionFilters, SessionGrouping, SessionSearchResult } from '../types';
+import { MODES } from '../constants';
+import { EXPIRING_SOON_MS, resolveRetention, sessionExpiresAt } from '../services/historyService';
+import { EMPTY_FILTERS, groupResults, hasActiveFilters, highlightParts, searchSessions, searchTerms } from '../services/sessionSearchService';
 
 interface SidebarProps {
   sessions: ChatSession[];
@@ -8,10 +11,24 @@ interface SidebarProps {
   projects: Project[];
   currentProjectId: string | null;
   onLoadSession: (session: ChatSession) => void;
+  onOpenMessage: (session: ChatSession, messageId: string) => void; // Loads the session scrolled to the message
   onNewChat: () => void;
-  onDownloadSession: (session: ChatSession) => void;
-  onDeleteSession: (id: string) => void;
+  onExportSessions: (sessions: ChatSession[], format: SessionExportFormat, name?: string) => void;
+  onImportSessions: (file: File) => void;
+  onDeleteSession: (id: string) => void; // Moves the session to the trash
+  trash: ChatSession[];
+  onPinSession: (id: string, pinned: boolean) => void;
+  onArchiveSession: (id: string, archived: boolean) => void;
+  onRestoreSession: (id: string) => void;
+  onPurgeTrash: (ids?: string[]) => void; // Without ids the whole trash is emptied
   onSelectProject: (project: Project) => void;
+  onCreateProject: () => void;
+  onEditProject: (project: Project) => void;
+  onDuplicateProject: (id: string) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File) => void;
+  onArchiveProject: (id: string, archived: boolean) => void;
+  onDeleteProject: (project: Project) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -20,11 +37,183 @@ const Sidebar: React.FC<SidebarProps> = ({
   projects,
   currentProjectId,
   onLoadSession, 
+  onOpenMessage,
   onNewChat, 
-  onDownloadSession,
+  onExportSessions,
+  onImportSessions,
   onDeleteSession,
-  onSelectProject
+  trash,
+  onPinSession,
+  onArchiveSession,
+  onRestoreSession,
+  onPurgeTrash,
+  onSelectProject,
+  onCreateProject,
+  onEditProject,
+  onDuplicateProject,
+  onExportProject,
+  onImportProject,
+  onArchiveProject,
+  onDeleteProject
 }) => {
+  const [menuProjectId, setMenuProjectId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const sessionImportRef = useRef<HTMLInputElement>(null);
+  const [exportSessionId, setExportSessionId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showArchivedSessions, setShowArchivedSessions] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [filters, setFilters] = useState<SessionFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [grouping, setGrouping] = useState<SessionGrouping>('none');
+
+  const activeProjects = projects.filter(p => !p.archived);
+  const archivedProjects = projects.filter(p => p.archived);
+
+  const retentionOf = (session: ChatSession) => projects.find(p => p.id === session.projectId)?.retention;
+  const isFiltering = hasActiveFilters(filters);
+  const terms = searchTerms(filters.query);
+  // While filtering, archived sessions are searched too
+  const listedResults = searchSessions(isFiltering ? sessions : sessions.filter(s => !s.archived), filters)
+    .sort((a, b) => grouping === 'none' ? Number(!!b.session.pinned) - Number(!!a.session.pinned) : 0);
+  const listedGroups = groupResults(listedResults, grouping, projects);
+  const archivedSessions = sessions.filter(s => s.archived);
+
+  const updateFilters = (changes: Partial<SessionFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const highlight = (text: string) => highlightParts(text, terms).map((part, i) =>
+    part.match ? <mark key={i} className="bg-gold/30 text-gold rounded-sm">{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>
+  );
+
+  const renderSession = (session: ChatSession, result?: SessionSearchResult) => {
+    const firstMatch = result?.matches[0];
+    const expiresAt = sessionExpiresAt(session, retentionOf(session));
+    const expiresInDays = expiresAt !== null && expiresAt - Date.now() < EXPIRING_SOON_MS
+      ? Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)))
+      : null;
+
+    return (
+        <div 
+            key={session.id}
+            className={`group relative flex items-center justify-between px-3 py-2.5 cursor-pointer transition-all duration-300 border-l-2 ${currentSessionId === session.id ? 'bg-white/5 border-gold text-white' : 'border-transparent hover:bg-white/5 hover:text-gray-200'}`}
+        >
+            <div className="flex-1 min-w-0" onClick={() => firstMatch ? onOpenMessage(session, firstMatch.messageId) : onLoadSession(session)}>
+                <div className="text-xs font-sans font-medium truncate mb-0.5 flex items-center gap-1.5">
+                     {session.pinned && <Pin size={10} className="text-gold-dim shrink-0" />}
+                     {session.archived && <Archive size={10} className="text-gray-600 shrink-0" />}
+                     <span className="truncate">{highlight(session.title)}</span>
+                </div>
+                <div className="text-[10px] font-mono text-gray-600 flex items-center gap-2">
+                     <span>{new Date(session.lastModified).toLocaleDateString(undefined, {month:'numeric', day:'numeric'})}</span>
+                     <span>•</span>
+                     <span>{session.modeId.split(' ')[0]}</span>
+                     {expiresInDays !== null && (
+                         <span className="flex items-center gap-1 text-yellow-500/80" title="Moves to the trash when retention runs out. Pin or archive to keep it.">
+                             <Clock size={9} /> {expiresInDays === 0 ? '<1D' : `${expiresInDays}D`}
+                         </span>
+                     )}
+                </div>
+                {result?.matches.map(match => (
+                    <div
+                        key={match.messageId}
+                        onClick={(e) => { e.stopPropagation(); onOpenMessage(session, match.messageId); }}
+                        className="mt-1 text-[10px] text-gray-500 hover:text-gray-300 line-clamp-2 break-words"
+                    >
+                        <span className="font-mono text-gray-600 uppercase mr-1">{match.role}:</span>{highlight(match.snippet)}
+                    </div>
+                ))}
+            </div>
+            
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onPinSession(session.id, !session.pinned); }}
+                    className="p-1.5 text-gray-500 hover:text-gold transition-colors rounded-sm"
+                    title={session.pinned ? 'Unpin' : 'Pin'}
+                >
+                    {session.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                </button>
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onArchiveSession(session.id, !session.archived); }}
+                    className="p-1.5 text-gray-500 hover:text-gold transition-colors rounded-sm"
+                    title={session.archived ? 'Unarchive' : 'Archive'}
+                >
+                    {session.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+                </button>
+                <button 
+                    onClick={(e) => { e.stopPropagation(); setExportSessionId(exportSessionId === session.id ? null : session.id); }}
+                    className="p-1.5 text-gray-500 hover:text-gold transition-colors rounded-sm"
+                    title="Export"
+                >
+                    <Download size={12} />
+                </button>
+                 <button 
+                    onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
+                    className="p-1.5 text-gray-500 hover:text-red-400 transition-colors rounded-sm"
+                    title="Move to Trash"
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+            {exportSessionId === session.id && (
+                <div className="absolute right-0 top-full mt-1 w-40 bg-jet border border-gold/20 shadow-2xl p-1 z-50" onMouseLeave={() => setExportSessionId(null)}>
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                        <ProjectMenuItem key={format} icon={<FileDown size={12} />} label={label} onClick={() => { setExportSessionId(null); onExportSessions([session], format); }} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+  };
+
+  const retentionLabel = (retention?: Partial<RetentionSettings>) => {
+    const { policy, days } = resolveRetention(retention);
+    return policy === 'forever' ? 'KEEP FOREVER' : policy === 'days' ? `${days}D RETENTION` : `${days}D · PINS KEPT`;
+  };
+  // Sessions of several contexts can be listed at once; name one retention only when they all share it
+  const listedRetentions = [...new Set(listedResults.map(r => retentionLabel(retentionOf(r.session))))];
+  const headerRetention = listedRetentions.length === 1 ? listedRetentions[0]
+    : listedRetentions.length > 1 ? 'MIXED RETENTION' : retentionLabel(projects.find(p => p.id === currentProjectId)?.retention);
+
+  const renderProject = (project: Project) => (
+    <div key={project.id} className="relative group">
+      <button
+        onClick={() => onSelectProject(project)}
+        className={`w-full flex items-center gap-3 px-3 py-2 pr-8 rounded-sm transition-all duration-200 ${currentProjectId === project.id ? 'bg-white/5 text-white border-l-2 border-gold' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200 border-l-2 border-transparent'} ${project.archived ? 'opacity-60' : ''}`}
+      >
+        <FolderOpen size={16} className={currentProjectId === project.id ? 'text-gold' : 'text-gray-600 group-hover:text-gold-dim'} />
+        <span className="text-xs font-medium truncate">{project.name}</span>
+      </button>
+      <button
+        onClick={(e) => { e.stopPropagation(); setMenuProjectId(menuProjectId === project.id ? null : project.id); }}
+        className="absolute right-1 top-1/2 -translate-y-1/2 p-1 text-gray-600 hover:text-gold opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Context actions"
+      >
+        <MoreHorizontal size={12} />
+      </button>
+      {menuProjectId === project.id && (
+        <div className="absolute right-0 top-full mt-1 w-40 bg-jet border border-gold/20 shadow-2xl p-1 z-50" onMouseLeave={() => setMenuProjectId(null)}>
+          <ProjectMenuItem icon={<Pencil size={12} />} label="Rename / Edit" onClick={() => { setMenuProjectId(null); onEditProject(project); }} />
+          <ProjectMenuItem icon={<Copy size={12} />} label="Duplicate" onClick={() => { setMenuProjectId(null); onDuplicateProject(project.id); }} />
+          <ProjectMenuItem icon={<FileDown size={12} />} label="Export Bundle" onClick={() => { setMenuProjectId(null); onExportProject(project.id); }} />
+          {EXPORT_FORMATS.filter(f => f.format !== 'txt').map(({ format, label }) => (
+            <ProjectMenuItem
+              key={format}
+              icon={<Download size={12} />}
+              label={`Sessions · ${label}`}
+              onClick={() => { setMenuProjectId(null); onExportSessions(sessions.filter(s => s.projectId === project.id), format, project.name); }}
+            />
+          ))}
+          <ProjectMenuItem
+            icon={project.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+            label={project.archived ? 'Unarchive' : 'Archive'}
+            onClick={() => { setMenuProjectId(null); onArchiveProject(project.id, !project.archived); }}
+          />
+          <ProjectMenuItem icon={<Trash2 size={12} />} label="Delete" danger onClick={() => { setMenuProjectId(null); onDeleteProject(project); }} />
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="hidden md:flex flex-col w-64 h-screen bg-jet border-r border-borderDark text-gray-400 p-4 relative glass-panel">
       
@@ -52,19 +241,44 @@ const Sidebar: React.FC<SidebarProps> = ({
             <span className="text-[10px] font-display font-bold text-gold-dim uppercase tracking-[0.2em] opacity-80">
                 Contexts
             </span>
+            <div className="flex items-center gap-2">
+                <button onClick={() => importInputRef.current?.click()} className="text-gray-600 hover:text-gold transition-colors" title="Import Context Bundle">
+                    <Upload size={12} />
+                </button>
+                <button onClick={onCreateProject} className="text-gray-600 hover:text-gold transition-colors" title="New Context">
+                    <Plus size={12} />
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImportProject(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
          </div>
          <div className="space-y-1">
-             {projects.map(project => (
+             {activeProjects.length === 0 && (
+                 <p className="px-3 py-2 text-[10px] text-gray-600 font-mono">NO CONTEXTS</p>
+             )}
+             {activeProjects.map(renderProject)}
+         </div>
+         {archivedProjects.length > 0 && (
+             <div className="mt-2">
                  <button
-                    key={project.id}
-                    onClick={() => onSelectProject(project)}
-                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-sm transition-all duration-200 group ${currentProjectId === project.id ? 'bg-white/5 text-white border-l-2 border-gold' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200 border-l-2 border-transparent'}`}
+                    onClick={() => setShowArchived(!showArchived)}
+                    className="flex items-center gap-1 px-3 py-1 text-[10px] font-mono text-gray-600 hover:text-gray-400 uppercase"
                  >
-                     <FolderOpen size={16} className={currentProjectId === project.id ? 'text-gold' : 'text-gray-600 group-hover:text-gold-dim'} />
-                     <span className="text-xs font-medium truncate">{project.name}</span>
+                     <ChevronDown size={10} className={`transition-transform ${showArchived ? '' : '-rotate-90'}`} />
+                     Archived ({archivedProjects.length})
                  </button>
-             ))}
-         </div>
+                 {showArchived && <div className="space-y-1 mt-1">{archivedProjects.map(renderProject)}</div>}
+             </div>
+         )}
       </div>
 
       {/* New Chat Button */}
@@ -77,15 +291,49 @@ const Sidebar: React.FC<SidebarProps> = ({
       </button>
 
       {/* Search - Glass Input */}
-      <div className="mb-6 relative">
-        <input 
-          type="text" 
-          placeholder="Search memory..." 
-          className="w-full bg-graphite/50 border border-borderDark text-xs font-mono text-gray-300 rounded-none pl-9 pr-3 py-2.5 focus:outline-none focus:border-gold/50 transition-colors placeholder:text-gray-600"
-        />
-        <svg className="w-3.5 h-3.5 absolute left-3 top-3 text-gold-dim" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-        </svg>
+      <div className="mb-6">
+        <div className="relative">
+          <input 
+            type="text" 
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder="Search memory..." 
+            className="w-full bg-graphite/50 border border-borderDark text-xs font-mono text-gray-300 rounded-none pl-9 pr-14 py-2.5 focus:outline-none focus:border-gold/50 transition-colors placeholder:text-gray-600"
+          />
+          <svg className="w-3.5 h-3.5 absolute left-3 top-3 text-gold-dim" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <div className="absolute right-2 top-2 flex items-center gap-1">
+            {isFiltering && (
+              <button onClick={() => setFilters(EMPTY_FILTERS)} className="p-0.5 text-gray-600 hover:text-white" title="Clear search and filters">
+                <X size={12} />
+              </button>
+            )}
+            <button onClick={() => setShowFilters(!showFilters)} className={`p-0.5 transition-colors ${showFilters || isFiltering ? 'text-gold' : 'text-gray-600 hover:text-gold'}`} title="Filters">
+              <SlidersHorizontal size={12} />
+            </button>
+          </div>
+        </div>
+        {showFilters && (
+          <div className="mt-2 grid grid-cols-2 gap-2 border border-borderDark bg-graphite/30 p-2">
+            <select value={filters.modeId} onChange={(e) => updateFilters({ modeId: e.target.value as ModeType | 'all' })} className={filterInputClass}>
+              <option value="all">All modes</option>
+              {MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+            </select>
+            <select value={filters.projectId} onChange={(e) => updateFilters({ projectId: e.target.value })} className={filterInputClass}>
+              <option value="all">All contexts</option>
+              <option value="none">No context</option>
+              {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+            </select>
+            <input type="date" value={filters.from || ''} onChange={(e) => updateFilters({ from: e.target.value || undefined })} className={filterInputClass} title="From" />
+            <input type="date" value={filters.to || ''} onChange={(e) => updateFilters({ to: e.target.value || undefined })} className={filterInputClass} title="To" />
+            <select value={grouping} onChange={(e) => setGrouping(e.target.value as SessionGrouping)} className={`${filterInputClass} col-span-2`}>
+              <option value="none">No grouping</option>
+              <option value="project">Group by context</option>
+              <option value="day">Group by day</option>
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Active Sessions (History) */}
@@ -93,48 +341,101 @@ const Sidebar: React.FC<SidebarProps> = ({
          <span className="text-[10px] font-display font-bold text-gold-dim uppercase tracking-[0.2em] opacity-80">
             Memory Logs
          </span>
-         <span className="text-[9px] font-mono text-gray-600">10D RETENTION</span>
+         <div className="flex items-center gap-2">
+             {grouping !== 'project' && (
+                 <span className="text-[9px] font-mono text-gray-600" title={listedRetentions.length > 1 ? 'Listed contexts keep sessions differently. Group by context to see each one.' : undefined}>
+                     {headerRetention}
+                 </span>
+             )}
+             <button onClick={() => sessionImportRef.current?.click()} className="text-gray-600 hover:text-gold transition-colors" title="Import Sessions (.json)">
+                 <Upload size={12} />
+             </button>
+             <input
+                 ref={sessionImportRef}
+                 type="file"
+                 accept=".json,application/json"
+                 className="hidden"
+                 onChange={(e) => {
+                     const file = e.target.files?.[0];
+                     if (file) onImportSessions(file);
+                     e.target.value = '';
+                 }}
+             />
+         </div>
       </div>
       
       <div className="flex-1 overflow-y-auto space-y-1 mb-4 pr-1 scrollbar-thin">
-        {sessions.length === 0 ? (
+        {listedResults.length === 0 ? (
             <div className="px-3 py-4 text-center border border-dashed border-white/5 rounded-sm">
-                <p className="text-[10px] text-gray-600 font-mono">NO ACTIVE LOGS</p>
+                <p className="text-[10px] text-gray-600 font-mono">{isFiltering ? 'NO MATCHING LOGS' : 'NO ACTIVE LOGS'}</p>
             </div>
         ) : (
-            sessions.map((session) => (
-                <div 
-                    key={session.id}
-                    className={`group flex items-center justify-between px-3 py-2.5 cursor-pointer transition-all duration-300 border-l-2 ${currentSessionId === session.id ? 'bg-white/5 border-gold text-white' : 'border-transparent hover:bg-white/5 hover:text-gray-200'}`}
-                >
-                    <div className="flex-1 min-w-0" onClick={() => onLoadSession(session)}>
-                        <div className="text-xs font-sans font-medium truncate mb-0.5">{session.title}</div>
-                        <div className="text-[10px] font-mono text-gray-600 flex items-center gap-2">
-                             <span>{new Date(session.lastModified).toLocaleDateString(undefined, {month:'numeric', day:'numeric'})}</span>
-                             <span>•</span>
-                             <span>{session.modeId.split(' ')[0]}</span>
+            listedGroups.map(group => (
+                <div key={group.key} className="space-y-1">
+                    {group.label && (
+                        <div className="px-3 pt-2 pb-1 flex items-center justify-between gap-2 text-[9px] font-mono text-gray-600 uppercase tracking-widest">
+                            <span className="truncate">{group.label}</span>
+                            {grouping === 'project' && (
+                                <span className="shrink-0 tracking-normal">{retentionLabel(projects.find(p => p.id === group.key)?.retention)}</span>
+                            )}
                         </div>
-                    </div>
-                    
-                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button 
-                            onClick={(e) => { e.stopPropagation(); onDownloadSession(session); }}
-                            className="p-1.5 text-gray-500 hover:text-gold transition-colors rounded-sm"
-                            title="Download Log (.txt)"
-                        >
-                            <Download size={12} />
-                        </button>
-                         <button 
-                            onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
-                            className="p-1.5 text-gray-500 hover:text-red-400 transition-colors rounded-sm"
-                            title="Delete Log"
-                        >
-                            <Trash2 size={12} />
-                        </button>
-                    </div>
+                    )}
+                    {group.results.map(result => renderSession(result.session, result))}
                 </div>
             ))
         )}
+
+        {!isFiltering && archivedSessions.length > 0 && (
+            <div className="pt-2">
+                <button
+                   onClick={() => setShowArchivedSessions(!showArchivedSessions)}
+                   className="flex items-center gap-1 px-3 py-1 text-[10px] font-mono text-gray-600 hover:text-gray-400 uppercase"
+                >
+                    <ChevronDown size={10} className={`transition-transform ${showArchivedSessions ? '' : '-rotate-90'}`} />
+                    Archived ({archivedSessions.length})
+                </button>
+                {showArchivedSessions && <div className="space-y-1 mt-1 opacity-70">{archivedSessions.map(s => renderSession(s))}</div>}
+            </div>
+        )}
+
+        {trash.length > 0 && (
+            <div className="pt-2">
+                <div className="flex items-center justify-between pr-2">
+                    <button
+                       onClick={() => setShowTrash(!showTrash)}
+                       className="flex items-center gap-1 px-3 py-1 text-[10px] font-mono text-gray-600 hover:text-gray-400 uppercase"
+                    >
+                        <ChevronDown size={10} className={`transition-transform ${showTrash ? '' : '-rotate-90'}`} />
+                        Trash ({trash.length})
+                    </button>
+                    {showTrash && (
+                        <button onClick={() => onPurgeTrash()} className="text-[9px] font-mono text-gray-600 hover:text-red-400 uppercase">
+                            Empty
+                        </button>
+                    )}
+                </div>
+                {showTrash && (
+                    <div className="space-y-1 mt-1">
+                        {trash.map(session => (
+                            <div key={session.id} className="group flex items-center justify-between px-3 py-2 border-l-2 border-transparent text-gray-600">
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-xs font-sans truncate line-through decoration-gray-700">{session.title}</div>
+                                    <div className="text-[10px] font-mono">Trashed {new Date(session.trashedAt!).toLocaleDateString(undefined, {month:'numeric', day:'numeric'})}</div>
+                                </div>
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={() => onRestoreSession(session.id)} className="p-1.5 text-gray-500 hover:text-gold transition-colors rounded-sm" title="Restore">
+                                        <RotateCcw size={12} />
+                                    </button>
+                                    <button onClick={() => onPurgeTrash([session.id])} className="p-1.5 text-gray-500 hover:text-red-400 transition-colors rounded-sm" title="Delete Forever">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
       </div>
       
       {/* User Profile (Bottom) */}
@@ -152,6 +453,25 @@ const Sidebar: React.FC<SidebarProps> = ({
   );
 };
 
+const filterInputClass = "w-full bg-black/50 border border-white/10 text-[10px] font-mono text-gray-300 p-1.5 rounded-sm focus:border-gold focus:outline-none";
+
+const EXPORT_FORMATS: { format: SessionExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.zip)' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+  { format: 'txt', label: 'Plain Text' }
+];
+
+const ProjectMenuItem = ({ icon, label, onClick, danger }: { icon: React.ReactNode, label: string, onClick: () => void, danger?: boolean }) => (
+  <button
+    onClick={onClick}
+    className={`w-full flex items-center gap-2 px-3 py-2 text-[11px] font-mono transition-colors hover:bg-white/5 ${danger ? 'text-red-400 hover:text-red-300' : 'text-gray-400 hover:text-gold'}`}
+  >
+    {icon}
+    {label}
+  </button>
+);
+
 const NavItem = ({ icon, label, active }: { icon: React.ReactNode, label: string, active?: boolean }) => (
   <button className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-sm transition-all duration-200 group ${active ? 'bg-white/5 text-gold border-l-2 border-gold' : 'text-gray-400 hover:bg-white/5 hover:text-gray-100 border-l-2 border-transparent'}`}>
     <span className={`${active ? 'text-gold' : 'text-gray-500 group-hover:text-gray-300'}`}>{icon}</span>
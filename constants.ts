@@ -1,4 +1,4 @@
-import { ModeType, Mode, Project, APIProvider } from './types';
+import { ModeType, Mode, Project, APIProvider, ResearchSettings, RetentionSettings, FalModel } from './types';
 
 export const MODES: Mode[] = [
   {
@@ -13,6 +13,7 @@ export const MODES: Mode[] = [
     2. If the user asks for deep market research, suggest Market Research mode.
     3. Maintain a helpful, professional persona.`,
     provider: APIProvider.GEMINI,
+    model: { model: 'gemini-2.5-flash', contextWindow: 1048576 },
     capabilities: ['text']
   },
   {
@@ -24,7 +25,8 @@ export const MODES: Mode[] = [
     
     You strictly adhere to the Project Context provided.
     Output format should be structured: Hero Section, Value Prop, Features, Social Proof, CTA.`,
-    provider: APIProvider.DEEPSEEK, // Simulated via High-Reasoning Model
+    provider: APIProvider.DEEPSEEK,
+    model: { model: 'deepseek-reasoner', contextWindow: 65536 },
     capabilities: ['text']
   },
   {
@@ -36,32 +38,60 @@ export const MODES: Mode[] = [
     
     You specialize in creating outline-driven, comprehensive ebooks.
     Focus on chapter structure, flow, and educational value.`,
-    provider: APIProvider.DEEPSEEK, // Simulated via High-Reasoning Model
+    provider: APIProvider.DEEPSEEK,
+    model: { model: 'deepseek-reasoner', contextWindow: 65536 },
     capabilities: ['text']
   },
   {
     id: ModeType.IMAGE_GEN,
     name: 'Visual Studio',
-    description: 'Fal.ai Nano Banana Pro emulation.',
+    description: 'Fal.ai image generation.',
     systemPrompt: `You are a Visual Prompt Engineer connected to Fal.ai (Nano Banana Pro). 
     Your task is to take user ideas and refine them into highly descriptive, artistic prompts.
     Then, you generate the image.`,
     provider: APIProvider.FAL_AI,
+    model: { model: 'fal-ai/nano-banana', contextWindow: 32768 },
     capabilities: ['text', 'image']
   },
   {
     id: ModeType.MARKET_RESEARCH,
     name: 'Market Research',
-    description: 'Tavily Search emulation.',
+    description: 'Tavily web research.',
     systemPrompt: `You are a Senior Market Analyst connected to Tavily.
     You use search tools to find real-time data, competitor analysis, and market trends.
     Always cite sources. Focus on data-driven insights.`,
     provider: APIProvider.TAVILY,
+    model: { model: 'gemini-2.5-flash', contextWindow: 1048576 },
     capabilities: ['text', 'search']
   }
 ];
 
-export const MOCK_PROJECTS: Project[] = [
+export const FAL_MODELS: FalModel[] = [
+  { id: 'fal-ai/nano-banana', label: 'Nano Banana', sizeParam: 'aspect_ratio', supportsGuidance: false,
+    edit: { endpoint: 'fal-ai/nano-banana/edit', imageParam: 'image_urls' } },
+  { id: 'fal-ai/flux/dev', label: 'FLUX.1 [dev]', sizeParam: 'image_size', supportsGuidance: true,
+    edit: { endpoint: 'fal-ai/flux/dev/image-to-image', imageParam: 'image_url' } },
+  { id: 'fal-ai/flux/schnell', label: 'FLUX.1 [schnell]', sizeParam: 'image_size', supportsGuidance: false },
+  { id: 'fal-ai/flux-pro/v1.1', label: 'FLUX1.1 [pro]', sizeParam: 'image_size', supportsGuidance: false }
+];
+
+export const DEFAULT_RESEARCH_SETTINGS: ResearchSettings = {
+  searchDepth: 'basic',
+  maxResults: 5,
+  maxQueries: 1,
+  extractTopResults: 0,
+  includeDomains: [],
+  excludeDomains: []
+};
+
+// Applies to sessions without a project and to projects without their own retention setting
+export const DEFAULT_RETENTION: RetentionSettings = {
+  policy: 'unpinned',
+  days: 10
+};
+
+// Seeded into the project store on first run (see projectService)
+export const DEFAULT_PROJECTS: Project[] = [
   {
     id: 'p1',
     name: 'Personal Brand',
@@ -81,7 +111,13 @@ export const MOCK_PROJECTS: Project[] = [
         },
         [ModeType.EBOOK]: {
             specificInstructions: "Tone should be slightly contrarian but professional.",
-            data: { outline: ["Chapter 1: The Myth of Clean Code", "Chapter 2: Pragmatic Engineering"] }
+            data: {
+              schemaVersion: 1,
+              outline: [
+                { title: "Chapter 1: The Myth of Clean Code", status: 'drafting' },
+                { title: "Chapter 2: Pragmatic Engineering", status: 'planned' }
+              ]
+            }
         }
       }
     }
@@ -101,9 +137,20 @@ export const MOCK_PROJECTS: Project[] = [
       modeContext: {
         [ModeType.MARKET_RESEARCH]: {
             specificInstructions: "Track competitors: Asana, Monday, Trello.",
-            data: { competitors: ["Asana", "Trello"] }
+            data: {
+              schemaVersion: 1,
+              competitors: [
+                { name: "Asana", positioning: "General-purpose work management" },
+                { name: "Trello", positioning: "Lightweight kanban boards" }
+              ]
+            }
         }
       }
+    },
+    researchSettings: {
+      searchDepth: 'advanced',
+      maxQueries: 3,
+      extractTopResults: 2
     }
   }
 ];
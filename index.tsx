@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initHistory } from './services/historyService';
+import { onStorageWarning } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +10,23 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// While another tab blocks a database upgrade, explain the wait instead of showing a blank page
+const stopWatching = onStorageWarning(warning => {
+  if (warning.kind !== 'blocked') return;
+  root.render(
+    <div className="h-screen flex items-center justify-center bg-jet text-gray-400 font-mono text-xs px-6 text-center">
+      {warning.message}
+    </div>
+  );
+});
+
+// History lives in IndexedDB; load it before the first render so the app can read it synchronously
+initHistory().then(() => {
+  stopWatching();
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
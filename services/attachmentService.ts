@@ -0,0 +1,116 @@
+import { Attachment } from '../types';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10 MB per file
+export const MAX_ATTACHMENTS = 5;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+const PDF_TYPE = 'application/pdf';
+
+// Browsers often report an empty MIME type for .md/.csv, so fall back to the extension
+const EXTENSION_TYPES: Record<string, string> = {
+  txt: 'text/plain', md: 'text/markdown', markdown: 'text/markdown', csv: 'text/csv',
+  json: 'application/json', pdf: PDF_TYPE,
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif'
+};
+
+export const ACCEPTED_FILE_TYPES = [...IMAGE_TYPES, ...TEXT_TYPES, PDF_TYPE, '.md', '.csv'].join(',');
+
+export const isImageAttachment = (att: Pick<Attachment, 'type'>) => att.type.startsWith('image/');
+
+export const resolveMimeType = (file: File): string => {
+  if (file.type && file.type !== 'application/octet-stream') return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[ext] || file.type;
+};
+
+/**
+ * Returns a user-facing reason the file cannot be attached, or null if it is fine.
+ */
+export const validateFile = (file: File): string | null => {
+  const type = resolveMimeType(file);
+  if (![...IMAGE_TYPES, ...TEXT_TYPES, PDF_TYPE].includes(type)) {
+    return `${file.name}: unsupported file type${type ? ` (${type})` : ''}.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: file is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+};
+
+/**
+ * `src` for rendering an attachment. Uploaded files store raw base64,
+ * generated images are already stored as data URLs.
+ */
+export const attachmentSrc = (att: Attachment) =>
+  att.data.startsWith('data:') ? att.data : `data:${att.type};base64,${att.data}`;
+
+/**
+ * Decodes an attachment's base64 payload (raw or data URL) to bytes.
+ */
+export const attachmentBytes = (att: Attachment): Uint8Array => {
+  const binary = atob(att.data.slice(att.data.startsWith('data:') ? att.data.indexOf(',') + 1 : 0));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(content.items.map((item: any) => item.str || '').join(' '));
+  }
+  return pages.map((text, i) => `[Page ${i + 1}]\n${text}`).join('\n\n');
+};
+
+/**
+ * Extracts plain text from text-like and PDF files. Returns undefined for images.
+ */
+export const extractText = async (file: File, type = resolveMimeType(file)): Promise<string | undefined> => {
+  if (TEXT_TYPES.includes(type)) return file.text();
+  if (type === PDF_TYPE) {
+    try {
+      return await extractPdfText(file);
+    } catch (e) {
+      console.warn(`PDF text extraction failed for ${file.name}:`, e);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Validates, base64-encodes and (where possible) extracts text from a file.
+ * Throws an Error with a user-facing message if the file is rejected.
+ */
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const problem = validateFile(file);
+  if (problem) throw new Error(problem);
+
+  const type = resolveMimeType(file);
+  const dataUrl = await readAsDataUrl(file);
+  return {
+    type,
+    name: file.name || `pasted.${type.split('/')[1] || 'bin'}`,
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    size: file.size,
+    text: await extractText(file, type)
+  };
+};
+
+/**
+ * Text block used by providers that take the attachment as plain text.
+ */
+export const attachmentAsText = (att: Attachment) =>
+  `--- Attachment: ${att.name} (${att.type}) ---\n${att.text ?? '(no text content)'}\n--- End of ${att.name} ---`;
@@ -0,0 +1,64 @@
+import { BranchPoint, Message } from '../types';
+
+/**
+ * Sets each message's parentId to the message before it. Messages that are already linked
+ * are returned as-is so unchanged messages are not written again.
+ */
+export const linkParents = (path: Message[]): Message[] =>
+  path.map((msg, i) => {
+    const parentId = i > 0 ? path[i - 1].id : undefined;
+    return msg.parentId === parentId ? msg : { ...msg, parentId };
+  });
+
+const childrenOf = (nodes: Message[], parentId: string | undefined) =>
+  nodes.filter(m => m.parentId === parentId).sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Splits the active branch before `index` for an edit or regeneration. Messages from `index`
+ * on move to the inactive branches; the caller continues the conversation from `kept`.
+ */
+export const forkAt = (path: Message[], branches: Message[], index: number) => {
+  const linked = linkParents(path);
+  return {
+    kept: linked.slice(0, index),
+    branches: [...branches, ...linked.slice(index)]
+  };
+};
+
+/**
+ * Makes the branch through `messageId` active, continuing down its most recent replies.
+ */
+export const switchBranch = (path: Message[], branches: Message[], messageId: string) => {
+  const nodes = [...linkParents(path), ...branches];
+  const byId = new Map(nodes.map(m => [m.id, m]));
+  const target = byId.get(messageId);
+  if (!target) return { messages: path, branches };
+
+  const active: Message[] = [];
+  for (let node: Message | undefined = target; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    active.unshift(node);
+  }
+  for (let children = childrenOf(nodes, target.id); children.length > 0; ) {
+    const latest = children[children.length - 1];
+    active.push(latest);
+    children = childrenOf(nodes, latest.id);
+  }
+
+  const activeIds = new Set(active.map(m => m.id));
+  return { messages: active, branches: nodes.filter(m => !activeIds.has(m.id)) };
+};
+
+/**
+ * For each active-branch message that has alternatives, its position among them.
+ */
+export const findBranchPoints = (path: Message[], branches: Message[] = []): Record<string, BranchPoint> => {
+  if (branches.length === 0) return {};
+  const linked = linkParents(path);
+  const nodes = [...linked, ...branches];
+  const points: Record<string, BranchPoint> = {};
+  linked.forEach(msg => {
+    const siblingIds = childrenOf(nodes, msg.parentId).map(m => m.id);
+    if (siblingIds.length > 1) points[msg.id] = { index: siblingIds.indexOf(msg.id), siblingIds };
+  });
+  return points;
+};
@@ -0,0 +1,257 @@
+import { BundleImportStrategy, ChatSession, MessageType, ModeType, Project, ProjectBundle, Role } from '../types';
+import { loadProjects, saveProject } from './projectService';
+import { loadSessions, loadTrash, upsertSessions } from './historyService';
+import { recordMemoryVersion } from './memoryHistoryService';
+import { migrateProjectMemory } from './memorySchemaService';
+import { loadKnowledge, upsertKnowledge } from './knowledgeService';
+
+export const BUNDLE_FORMAT = 'axora-project-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MODE_IDS = Object.values(ModeType) as string[];
+const ROLES = Object.values(Role) as string[];
+const MESSAGE_TYPES = Object.values(MessageType) as string[];
+
+const newProjectId = () => `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+const newDocumentId = (index: number) => `k_${Date.now().toString(36)}_${index}_${Math.random().toString(36).slice(2, 6)}`;
+const newSessionId = (index: number) => `${Date.now()}_${index}_${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Builds a bundle of the project, its memory history, knowledge documents and every session assigned to it.
+ */
+export const createProjectBundle = (projectId: string): ProjectBundle | null => {
+  const project = loadProjects().find(p => p.id === projectId);
+  if (!project) return null;
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    project,
+    sessions: loadSessions().filter(s => s.projectId === projectId),
+    knowledge: loadKnowledge(projectId)
+  };
+};
+
+/**
+ * Exports a project bundle to a JSON file and triggers download.
+ */
+export const downloadProjectBundle = (projectId: string) => {
+  const bundle = createProjectBundle(projectId);
+  if (!bundle) return;
+
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `axora_context_${bundle.project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${Date.now()}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Checks the fields the app reads from a message and its attachments. Returns readable problems.
+ */
+const validateMessage = (message: any, where: string): string[] => {
+  if (!isObject(message)) return [`${where} must be an object`];
+  const errors: string[] = [];
+  if (typeof message.id !== 'string') errors.push(`${where}.id must be a string`);
+  if (typeof message.content !== 'string') errors.push(`${where}.content must be a string`);
+  if (!ROLES.includes(message.role)) errors.push(`${where}.role is not a known role`);
+  if (!MESSAGE_TYPES.includes(message.type)) errors.push(`${where}.type is not a known message type`);
+  if (typeof message.timestamp !== 'number') errors.push(`${where}.timestamp must be a number`);
+  if (message.attachments !== undefined) {
+    if (!Array.isArray(message.attachments)) {
+      errors.push(`${where}.attachments must be a list`);
+    } else {
+      message.attachments.forEach((att: any, i: number) => {
+        if (!isObject(att) || ['type', 'name', 'data'].some(field => typeof att[field] !== 'string')) {
+          errors.push(`${where}.attachments[${i}] must have a string type, name and data`);
+        }
+      });
+    }
+  }
+  return errors;
+};
+
+const validateMessages = (messages: any, where: string): string[] =>
+  Array.isArray(messages)
+    ? messages.flatMap((m: any, i: number) => validateMessage(m, `${where}[${i}]`))
+    : [`${where} must be a list`];
+
+/**
+ * Checks that an imported value has the shape of a ChatSession. Returns readable problems.
+ */
+export const validateSession = (session: any, index: number): string[] => {
+  const where = `sessions[${index}]`;
+  if (!isObject(session)) return [`${where} must be an object`];
+  const errors: string[] = [];
+  if (typeof session.id !== 'string') errors.push(`${where}.id must be a string`);
+  if (typeof session.title !== 'string') errors.push(`${where}.title must be a string`);
+  if (!MODE_IDS.includes(session.modeId)) errors.push(`${where}.modeId is not a known mode`);
+  errors.push(...validateMessages(session.messages, `${where}.messages`));
+  if (session.branches !== undefined) errors.push(...validateMessages(session.branches, `${where}.branches`));
+  return errors;
+};
+
+const isStringRecord = (value: any) => isObject(value) && Object.values(value).every(v => typeof v === 'string');
+
+/**
+ * Checks the field types of a ProjectMemory, so a hand-edited bundle cannot store memory the
+ * memory editor and the prompt builder cannot read. Structured mode data is checked by its schema
+ * in the memory editor instead.
+ */
+const validateMemory = (memory: any, where: string): string[] => {
+  if (!isObject(memory?.sharedContext) || !isObject(memory?.modeContext)) {
+    return [`${where} is missing sharedContext or modeContext`];
+  }
+  const errors: string[] = [];
+  if (typeof memory.sharedContext.summary !== 'string') errors.push(`${where}.sharedContext.summary must be a string`);
+  if (!isStringRecord(memory.sharedContext.keyFacts)) errors.push(`${where}.sharedContext.keyFacts must map names to strings`);
+  for (const [mode, context] of Object.entries<any>(memory.modeContext)) {
+    const at = `${where}.modeContext.${mode}`;
+    if (!MODE_IDS.includes(mode)) {
+      errors.push(`${at} is not a known mode`);
+    } else if (context !== undefined && !isObject(context)) {
+      errors.push(`${at} must be an object`);
+    } else if (context) {
+      ['lastState', 'specificInstructions'].forEach(field => {
+        if (context[field] !== undefined && typeof context[field] !== 'string') errors.push(`${at}.${field} must be a string`);
+      });
+      if (context.facts !== undefined && !isStringRecord(context.facts)) errors.push(`${at}.facts must map names to strings`);
+    }
+  }
+  if (memory.sharing !== undefined && (!isObject(memory.sharing) || Object.entries<any>(memory.sharing).some(([reader, sources]) =>
+    !MODE_IDS.includes(reader) || !Array.isArray(sources) || sources.some((m: any) => !MODE_IDS.includes(m))))) {
+    errors.push(`${where}.sharing must map modes to lists of modes`);
+  }
+  return errors;
+};
+
+/**
+ * Parses and validates a bundle file. Throws with a readable list of problems when the file is not a usable bundle.
+ */
+export const parseProjectBundle = (text: string): ProjectBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  if (!isObject(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new Error('File is not an Axora context bundle.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${raw.version} is not supported (latest: ${BUNDLE_VERSION}).`);
+  }
+
+  const errors: string[] = [];
+  const project = raw.project;
+  if (!isObject(project)) {
+    errors.push('project must be an object');
+  } else {
+    if (typeof project.id !== 'string') errors.push('project.id must be a string');
+    if (typeof project.name !== 'string') errors.push('project.name must be a string');
+    errors.push(...validateMemory(project.memory, 'project.memory'));
+    if (project.memoryHistory !== undefined) {
+      if (!Array.isArray(project.memoryHistory)) {
+        errors.push('project.memoryHistory must be a list');
+      } else {
+        project.memoryHistory.forEach((v: any, i: number) => {
+          if (!isObject(v) || typeof v.version !== 'number') errors.push(`project.memoryHistory[${i}] must have a version number`);
+          else errors.push(...validateMemory(v.memory, `project.memoryHistory[${i}].memory`));
+        });
+      }
+    }
+  }
+  if (!Array.isArray(raw.sessions)) {
+    errors.push('sessions must be a list');
+  } else {
+    raw.sessions.forEach((s: any, i: number) => errors.push(...validateSession(s, i)));
+  }
+  if (raw.knowledge !== undefined && (!Array.isArray(raw.knowledge)
+    || raw.knowledge.some((d: any) => !isObject(d) || typeof d.id !== 'string' || !Array.isArray(d.chunks)))) {
+    errors.push('knowledge contains malformed documents');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid bundle:\n${errors.slice(0, 10).join('\n')}`);
+  }
+
+  return {
+    ...raw,
+    project: {
+      ...project,
+      description: project.description || '',
+      memory: migrateProjectMemory(project.memory)
+    }
+  };
+};
+
+/**
+ * Returns the existing project an import would collide with, if any.
+ */
+export const findBundleConflict = (bundle: ProjectBundle): Project | undefined =>
+  loadProjects().find(p => p.id === bundle.project.id);
+
+/**
+ * Imports a bundle. Without an ID collision the project is restored as-is. On collision:
+ * - 'copy' imports the project and its sessions under fresh IDs
+ * - 'merge' records the bundle's memory as a new version of the existing project and adds its sessions;
+ *   sessions present on both sides keep whichever copy was modified last. A session whose ID is taken
+ *   by another project's session is added under a fresh ID instead of replacing it
+ */
+export const importProjectBundle = (bundle: ProjectBundle, strategy: BundleImportStrategy) => {
+  const existing = findBundleConflict(bundle);
+  const sessionsById = new Map([...loadSessions(), ...loadTrash()].map(s => [s.id, s]));
+  const reason = `Imported from bundle (${new Date(bundle.exportedAt).toLocaleDateString()})`;
+
+  let project: Project;
+  let sessions: ChatSession[];
+
+  if (existing && strategy === 'merge') {
+    project = { ...existing, ...recordMemoryVersion(existing, bundle.project.memory, 'import', reason) };
+    sessions = bundle.sessions.flatMap((s, i) => {
+      const current = sessionsById.get(s.id);
+      if (current && current.projectId !== existing.id) return [{ ...s, id: newSessionId(i), projectId: existing.id }];
+      if (current && current.lastModified >= s.lastModified) return [];
+      return [{ ...s, projectId: existing.id }];
+    });
+  } else if (existing) {
+    project = {
+      ...bundle.project,
+      id: newProjectId(),
+      name: `${bundle.project.name} (imported)`,
+      createdAt: Date.now()
+    };
+    project = { ...project, ...recordMemoryVersion(project, project.memory, 'import', reason) };
+    sessions = bundle.sessions.map((s, i) => ({ ...s, id: newSessionId(i), projectId: project.id }));
+  } else {
+    project = { ...bundle.project, ...recordMemoryVersion(bundle.project, bundle.project.memory, 'import', reason) };
+    // Session IDs are global; only remap the ones already taken by another project
+    sessions = bundle.sessions.map((s, i) => ({
+      ...s,
+      id: sessionsById.has(s.id) ? newSessionId(i) : s.id,
+      projectId: project.id
+    }));
+  }
+
+  // Documents follow the project. A merge replaces same-ID documents; otherwise taken IDs are remapped
+  const knowledgeIds = new Set(loadKnowledge().map(d => d.id));
+  const keepDocumentId = (id: string) => existing ? strategy === 'merge' : !knowledgeIds.has(id);
+  upsertKnowledge((bundle.knowledge || []).map((d, i) => ({
+    ...d,
+    id: keepDocumentId(d.id) ? d.id : newDocumentId(i),
+    projectId: project.id
+  })));
+
+  return {
+    project,
+    projects: saveProject(project),
+    sessions: upsertSessions(sessions)
+  };
+};
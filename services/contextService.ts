@@ -0,0 +1,155 @@
+import { APIProvider, Attachment, ContextCompaction, ContextUsage, Message, Mode, Project, Role } from '../types';
+import { getProvider } from './providerRegistry';
+
+// Gemini bills every image as 258 tokens (per 768px tile); one tile is a fair estimate here.
+const IMAGE_TOKENS = 258;
+const DEFAULT_CONTEXT_WINDOW = 32768;
+
+// Compact when the context passes TRIGGER, keeping the newest turns within TARGET.
+const COMPACTION_TRIGGER = 0.8;
+const COMPACTION_TARGET = 0.5;
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Estimates the token count of a string. Latin text averages ~4 characters per token;
+ * CJK and other non-Latin scripts are closer to one token per character.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const wide = (text.match(/[^\u0000-\u024F\s]/g) || []).length;
+  return Math.ceil((text.length - wide) / 4 + wide);
+};
+
+export const estimateAttachmentTokens = (attachments: Attachment[] = []): number =>
+  attachments.reduce((acc, att) => {
+    if (att.type.startsWith('image/')) return acc + IMAGE_TOKENS;
+    if (att.text !== undefined) return acc + estimateTokens(att.text);
+    // Base64 inflates the payload by 4/3
+    return acc + Math.ceil((att.data.length * 3) / 4 / 4);
+  }, 0);
+
+// Only user attachments are re-sent with the history; generated images are not
+export const estimateMessageTokens = (msg: Message): number =>
+  estimateTokens(msg.content) + (msg.role === Role.USER ? estimateAttachmentTokens(msg.attachments) : 0);
+
+export const getContextWindow = (mode: Mode) => mode.model.contextWindow || DEFAULT_CONTEXT_WINDOW;
+
+/**
+ * Returns the messages still sent verbatim after a compaction (everything after the
+ * last message folded into the summary).
+ */
+export const applyCompaction = (history: Message[], compaction?: ContextCompaction): Message[] => {
+  if (!compaction) return history;
+  const index = history.findIndex(m => m.id === compaction.throughMessageId);
+  return index >= 0 ? history.slice(index + 1) : history;
+};
+
+export const renderCompactionSection = (compaction?: ContextCompaction) => {
+  if (!compaction?.summary) return '';
+  return `\n\n--- 🧾 EARLIER CONVERSATION (compacted, ${compaction.compactedCount} messages) ---\n${compaction.summary}\n`;
+};
+
+/**
+ * Measures how much of the model's context window the next request will use. `systemInstruction`
+ * should include the turn's knowledge and recalled sections (see buildSystemInstruction); the
+ * compaction summary is added here.
+ */
+export const measureContext = (
+  mode: Mode,
+  systemInstruction: string,
+  history: Message[],
+  pendingAttachments: Attachment[] = [],
+  compaction?: ContextCompaction,
+  prompt = ''
+): ContextUsage => {
+  const visible = applyCompaction(history, compaction);
+  const systemTokens = estimateTokens(systemInstruction + renderCompactionSection(compaction));
+  const historyTokens = visible.reduce((acc, m) => acc + estimateTokens(m.content), 0) + estimateTokens(prompt);
+  const attachmentTokens = visible.reduce((acc, m) => acc + (m.role === Role.USER ? estimateAttachmentTokens(m.attachments) : 0), 0)
+    + estimateAttachmentTokens(pendingAttachments);
+  const totalTokens = systemTokens + historyTokens + attachmentTokens;
+  const contextWindow = getContextWindow(mode);
+
+  return {
+    systemTokens,
+    historyTokens,
+    attachmentTokens,
+    totalTokens,
+    contextWindow,
+    ratio: Math.min(1, totalTokens / contextWindow)
+  };
+};
+
+const summarize = async (messages: Message[], previousSummary?: string, signal?: AbortSignal): Promise<string> => {
+  const transcript = messages
+    .map(m => `${m.role === Role.USER ? 'USER' : 'ASSISTANT'}: ${m.content}`)
+    .join('\n\n');
+
+  const response = await getProvider(APIProvider.GEMINI).generateText!({
+    history: [],
+    systemInstruction: 'You compress chat transcripts. Write a dense bullet summary that preserves decisions, facts, names, numbers and open tasks. No preamble.',
+    prompt: (previousSummary ? `Existing summary:\n${previousSummary}\n\nAppend the following turns:\n` : '') + transcript,
+    attachments: [],
+    model: { model: SUMMARY_MODEL },
+    signal
+  });
+  return response.text.trim();
+};
+
+/**
+ * When the next request would exceed COMPACTION_TRIGGER of the context window, folds the
+ * oldest turns into a running summary so that the rest fits within COMPACTION_TARGET.
+ * Falls back to plain trimming if the summary call fails. If `signal` aborts during the summary
+ * call, nothing is compacted. Returns the (possibly unchanged) compaction state.
+ */
+export const compactIfNeeded = async (
+  mode: Mode,
+  systemInstruction: string,
+  history: Message[],
+  pendingAttachments: Attachment[],
+  current?: ContextCompaction,
+  options: { prompt?: string; onProgress?: (status: string) => void; signal?: AbortSignal } = {}
+): Promise<ContextCompaction | undefined> => {
+  const { prompt = '', onProgress, signal } = options;
+  const usage = measureContext(mode, systemInstruction, history, pendingAttachments, current, prompt);
+  if (usage.ratio < COMPACTION_TRIGGER) return current;
+
+  const visible = applyCompaction(history, current);
+  const budget = usage.contextWindow * COMPACTION_TARGET - usage.systemTokens
+    - estimateAttachmentTokens(pendingAttachments) - estimateTokens(prompt);
+
+  // Keep the newest messages that fit in the budget; always fold at least one
+  let kept = 0;
+  let keptTokens = 0;
+  for (let i = visible.length - 1; i > 0; i--) {
+    const cost = estimateMessageTokens(visible[i]);
+    if (keptTokens + cost > budget) break;
+    keptTokens += cost;
+    kept++;
+  }
+  const toFold = visible.slice(0, visible.length - kept);
+  if (toFold.length === 0) return current;
+
+  let summary = current?.summary || '';
+  let method: ContextCompaction['method'] = 'summary';
+  onProgress?.(`Compacting ${toFold.length} older messages...`);
+  try {
+    summary = await summarize(toFold, current?.summary, signal);
+  } catch (e) {
+    if (signal?.aborted) return current;
+    console.warn("Context summary failed, trimming instead:", e);
+    method = 'trim';
+  }
+
+  const next: ContextCompaction = {
+    summary,
+    throughMessageId: toFold[toFold.length - 1].id,
+    compactedCount: (current?.compactedCount || 0) + toFold.length,
+    method,
+    tokensBefore: usage.totalTokens,
+    tokensAfter: 0,
+    timestamp: Date.now()
+  };
+  next.tokensAfter = measureContext(mode, systemInstruction, history, pendingAttachments, next, prompt).totalTokens;
+  return next;
+};
@@ -0,0 +1,149 @@
+import { APIProvider, ProviderErrorInfo, ProviderErrorKind } from '../types';
+
+const USER_MESSAGES: Record<ProviderErrorKind, string> = {
+  [ProviderErrorKind.AUTH]: 'Authentication failed. Check the API key for this provider.',
+  [ProviderErrorKind.RATE_LIMIT]: 'Rate limit or quota exceeded. Wait a moment and retry.',
+  [ProviderErrorKind.SAFETY]: 'The request was blocked by the provider\'s safety filters.',
+  [ProviderErrorKind.NETWORK]: 'The provider could not be reached or is temporarily unavailable.',
+  [ProviderErrorKind.INVALID_REQUEST]: 'The provider rejected the request as invalid.',
+  [ProviderErrorKind.UNKNOWN]: 'An unexpected error occurred.'
+};
+
+const RETRYABLE = new Set([ProviderErrorKind.RATE_LIMIT, ProviderErrorKind.NETWORK]);
+
+/**
+ * Error raised by provider adapters. Carries a kind from the shared taxonomy so the
+ * router can decide whether to retry and the UI can explain what went wrong.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: APIProvider;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  private readonly retryableOverride?: boolean;
+
+  constructor(kind: ProviderErrorKind, provider: APIProvider, message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryableOverride = options.retryable;
+  }
+
+  // Transient kinds are retryable unless the adapter knows a retry would repeat side effects (e.g. a paid job)
+  get retryable() {
+    return this.retryableOverride ?? RETRYABLE.has(this.kind);
+  }
+
+  /**
+   * Copy of this error that the router will not retry.
+   */
+  final(): ProviderError {
+    return new ProviderError(this.kind, this.provider, this.message, { status: this.status, retryable: false });
+  }
+
+  toInfo(): ProviderErrorInfo {
+    return {
+      kind: this.kind,
+      provider: this.provider,
+      message: this.message,
+      status: this.status,
+      retryable: this.retryable
+    };
+  }
+}
+
+export const describeError = (kind: ProviderErrorKind) => USER_MESSAGES[kind];
+
+/**
+ * Maps an HTTP status code onto the error taxonomy.
+ */
+export const kindFromStatus = (status: number): ProviderErrorKind => {
+  if (status === 401 || status === 403) return ProviderErrorKind.AUTH;
+  if (status === 402 || status === 429) return ProviderErrorKind.RATE_LIMIT;
+  if (status === 400 || status === 404 || status === 413 || status === 422) return ProviderErrorKind.INVALID_REQUEST;
+  if (status === 408 || status >= 500) return ProviderErrorKind.NETWORK;
+  return ProviderErrorKind.UNKNOWN;
+};
+
+/**
+ * Builds a ProviderError from a failed fetch Response.
+ */
+export const httpError = async (provider: APIProvider, response: Response, label: string) => {
+  const detail = await response.text().catch(() => '');
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new ProviderError(
+    kindFromStatus(response.status),
+    provider,
+    `${label} failed (${response.status}): ${detail}`,
+    { status: response.status, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined }
+  );
+};
+
+export const missingKeyError = (provider: APIProvider, envVar: string) =>
+  new ProviderError(ProviderErrorKind.AUTH, provider, `No API Key found. Please set ${envVar} in .env.local.`);
+
+/**
+ * Normalizes anything thrown by an adapter (SDK errors, fetch TypeErrors, plain Errors)
+ * into a ProviderError.
+ */
+export const toProviderError = (error: any, provider: APIProvider): ProviderError => {
+  if (error instanceof ProviderError) return error;
+
+  const message = error?.message || String(error);
+  if (typeof error?.status === 'number') {
+    return new ProviderError(kindFromStatus(error.status), provider, message, { status: error.status });
+  }
+  // fetch() rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError || /network|fetch|ECONNRESET|ETIMEDOUT/i.test(message)) {
+    return new ProviderError(ProviderErrorKind.NETWORK, provider, message);
+  }
+  if (/safety|blocked/i.test(message)) {
+    return new ProviderError(ProviderErrorKind.SAFETY, provider, message);
+  }
+  return new ProviderError(ProviderErrorKind.UNKNOWN, provider, message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  canRetry?: () => boolean; // Extra guard, e.g. no output has been streamed yet
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `fn`, retrying transient ProviderErrors with exponential backoff and jitter.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, provider: APIProvider, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 15000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      if (options.signal?.aborted) throw raw;
+
+      const error = toProviderError(raw, provider);
+      if (!error.retryable || attempt >= retries || (options.canRetry && !options.canRetry())) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      const delayMs = Math.max(backoff, error.retryAfterMs || 0);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
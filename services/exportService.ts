@@ -0,0 +1,262 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { Attachment, ChatSession, Message, MessageType, Role, SessionArchive, SessionExportFormat } from '../types';
+import { attachmentBytes, attachmentSrc, isImageAttachment } from './attachmentService';
+import { extensionFor } from './imageService';
+import { validateSession } from './bundleService';
+import { downloadSessionAsTxt, loadSessions, loadTrash, upsertSessions } from './historyService';
+import { loadProjects } from './projectService';
+import { createZip, ZipEntry } from './zipService';
+
+export const SESSION_ARCHIVE_FORMAT = 'axora-sessions';
+export const SESSION_ARCHIVE_VERSION = 1;
+
+const slug = (text: string) => text.replace(/[^a-z0-9]/gi, '_').toLowerCase().replace(/_+/g, '_').replace(/^_|_$/g, '') || 'session';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const roleLabel = (msg: Message) => msg.role === Role.USER ? 'User' : 'Axora';
+
+/**
+ * Web sources the reply was grounded on, in citation order.
+ */
+const webSources = (msg: Message): { title: string; uri: string }[] =>
+  (msg.groundingMetadata?.groundingChunks || [])
+    .filter((chunk: any) => chunk.web?.uri)
+    .map((chunk: any) => ({ uri: chunk.web.uri, title: chunk.web.title || new URL(chunk.web.uri).hostname }));
+
+/**
+ * Inactive-branch messages in creation order, each with a note naming the message it follows.
+ */
+const branchMessages = (session: ChatSession): { msg: Message; note: string }[] => {
+  const all = [...session.messages, ...(session.branches || [])];
+  return [...(session.branches || [])]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(msg => {
+      const parent = all.find(m => m.id === msg.parentId);
+      const excerpt = parent && parent.content.replace(/\s+/g, ' ').slice(0, 60);
+      return { msg, note: parent ? `follows "${excerpt}${parent.content.length > 60 ? '…' : ''}"` : 'first message' };
+    });
+};
+
+// Markdown ----------------------------------------------------------------
+
+const attachmentFileName = (att: Attachment, messageIndex: number, index: number) => {
+  const base = slug(att.name.replace(/\.[^.]+$/, ''));
+  const ext = att.name.match(/\.([a-z0-9]+)$/i)?.[1] || extensionFor(att.type);
+  return `${messageIndex + 1}_${index + 1}_${base}.${ext}`;
+};
+
+/**
+ * Renders a session as Markdown. Attachments are returned as separate files under `assetDir`.
+ */
+const toMarkdown = (session: ChatSession, assetDir: string): { markdown: string; files: ZipEntry[] } => {
+  const files: ZipEntry[] = [];
+  const projectName = loadProjects().find(p => p.id === session.projectId)?.name;
+  let md = `# ${session.title}\n\n`;
+  md += `- Mode: ${session.modeId}\n`;
+  if (projectName) md += `- Context: ${projectName}\n`;
+  md += `- Last modified: ${new Date(session.lastModified).toLocaleString()}\n`;
+
+  const renderMessage = (msg: Message, messageIndex: number, note?: string) => {
+    md += `\n---\n\n### ${roleLabel(msg)} · ${new Date(msg.timestamp).toLocaleString()}${note ? ` (${note})` : ''}\n\n`;
+    if (msg.type === MessageType.ERROR) md += `> **Error**\n\n`;
+    md += `${msg.content}\n`;
+
+    msg.attachments?.forEach((att, i) => {
+      if (!att.data) return;
+      const path = `${assetDir}/${attachmentFileName(att, messageIndex, i)}`;
+      files.push({ path, data: attachmentBytes(att) });
+      md += isImageAttachment(att) ? `\n![${att.name}](${path})\n` : `\n[${att.name}](${path})\n`;
+    });
+
+    const sources = webSources(msg);
+    if (sources.length > 0) {
+      md += `\n**Sources**\n\n${sources.map((s, i) => `${i + 1}. [${s.title}](${s.uri})`).join('\n')}\n`;
+    }
+    if (msg.knowledge?.length) {
+      md += `\n**Knowledge**\n\n${msg.knowledge.map((hit, i) => `- [K${i + 1}] ${hit.documentName}, part ${hit.chunkIndex + 1}`).join('\n')}\n`;
+    }
+  };
+
+  session.messages.forEach((msg, i) => renderMessage(msg, i));
+  const alternatives = branchMessages(session);
+  if (alternatives.length > 0) {
+    md += `\n---\n\n## Other Branches\n`;
+    alternatives.forEach(({ msg, note }, i) => renderMessage(msg, session.messages.length + i, note));
+  }
+  return { markdown: md, files };
+};
+
+// HTML --------------------------------------------------------------------
+
+const HTML_STYLE = `
+body { background: #0b0b0c; color: #e5e5e5; font-family: system-ui, sans-serif; max-width: 860px; margin: 0 auto; padding: 40px 24px; line-height: 1.6; }
+h1 { color: #d6b376; font-size: 1.6rem; margin-bottom: 4px; }
+h2 { color: #d6b376; font-size: 1.1rem; margin-top: 48px; }
+.meta { color: #777; font: 12px monospace; margin-bottom: 32px; }
+.msg { border-top: 1px solid #222; padding: 20px 0; }
+.role { font: 11px monospace; text-transform: uppercase; letter-spacing: .15em; color: #888; margin-bottom: 8px; }
+.model .role { color: #d6b376; }
+.error { color: #f87171; }
+img { max-width: 100%; border: 1px solid #333; margin-top: 12px; }
+a { color: #d6b376; }
+pre { background: #000; padding: 12px; overflow-x: auto; }
+code { font-family: monospace; }
+.refs { margin-top: 16px; font: 12px monospace; color: #999; }
+.refs ol, .refs ul { padding-left: 20px; margin: 4px 0; }
+nav ul { font: 13px monospace; }
+section + section { margin-top: 64px; }
+`;
+
+const renderMarkdownHtml = (content: string) => renderToStaticMarkup(createElement(ReactMarkdown, null, content));
+
+const toHtmlSection = (session: ChatSession, anchor: string) => {
+  const renderMessage = (msg: Message, note?: string) => {
+    const attachments = (msg.attachments || []).filter(att => att.data).map(att => isImageAttachment(att)
+      ? `<img src="${attachmentSrc(att)}" alt="${escapeHtml(att.name)}">`
+      : `<p><a download="${escapeHtml(att.name)}" href="${attachmentSrc(att)}">${escapeHtml(att.name)}</a></p>`
+    ).join('\n');
+    const sources = webSources(msg);
+    const refs = [
+      sources.length > 0 && `<div>Sources</div><ol>${sources.map(s => `<li><a href="${escapeHtml(s.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(s.title)}</a></li>`).join('')}</ol>`,
+      msg.knowledge?.length && `<div>Knowledge</div><ul>${msg.knowledge.map((hit, i) => `<li>[K${i + 1}] ${escapeHtml(hit.documentName)}, part ${hit.chunkIndex + 1}</li>`).join('')}</ul>`
+    ].filter(Boolean).join('');
+
+    return `<div class="msg ${msg.role === Role.USER ? 'user' : 'model'}${msg.type === MessageType.ERROR ? ' error' : ''}">
+<div class="role">${roleLabel(msg)} · ${escapeHtml(new Date(msg.timestamp).toLocaleString())}${note ? ` · ${escapeHtml(note)}` : ''}</div>
+${renderMarkdownHtml(msg.content)}
+${attachments}
+${refs && `<div class="refs">${refs}</div>`}
+</div>`;
+  };
+
+  const alternatives = branchMessages(session);
+  const messages = [
+    ...session.messages.map(msg => renderMessage(msg)),
+    ...(alternatives.length > 0 ? ['<h2>Other Branches</h2>', ...alternatives.map(({ msg, note }) => renderMessage(msg, note))] : [])
+  ].join('\n');
+
+  return `<section id="${anchor}">
+<h1>${escapeHtml(session.title)}</h1>
+<div class="meta">${escapeHtml(session.modeId)} · ${escapeHtml(new Date(session.lastModified).toLocaleString())}</div>
+${messages}
+</section>`;
+};
+
+/**
+ * Renders sessions as one self-contained HTML document (images embedded as data URLs).
+ */
+const toHtml = (sessions: ChatSession[], title: string) => {
+  const toc = sessions.length > 1
+    ? `<nav><ul>${sessions.map((s, i) => `<li><a href="#s${i + 1}">${escapeHtml(s.title)}</a></li>`).join('')}</ul></nav>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${toc}
+${sessions.map((s, i) => toHtmlSection(s, `s${i + 1}`)).join('\n')}
+</body>
+</html>`;
+};
+
+// Export / import ----------------------------------------------------------
+
+/**
+ * Exports one or more sessions and triggers download. `name` names the file of a bulk export.
+ * - markdown: a zip with one .md per session and attachments as files
+ * - json: a lossless SessionArchive that can be imported again
+ * - html: one self-contained page
+ * - txt: the plain-text log (single session only)
+ */
+export const downloadSessions = (sessions: ChatSession[], format: SessionExportFormat, name?: string) => {
+  if (sessions.length === 0) return;
+  const single = sessions.length === 1;
+  const baseName = `axora_${slug(name || sessions[0].title)}_${Date.now()}`;
+
+  if (format === 'txt') {
+    sessions.forEach(downloadSessionAsTxt);
+  } else if (format === 'json') {
+    const archive: SessionArchive = {
+      format: SESSION_ARCHIVE_FORMAT,
+      version: SESSION_ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      sessions
+    };
+    saveBlob(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+  } else if (format === 'html') {
+    saveBlob(new Blob([toHtml(sessions, name || sessions[0].title)], { type: 'text/html;charset=utf-8' }), `${baseName}.html`);
+  } else {
+    const entries = sessions.flatMap(session => {
+      const fileBase = single ? slug(session.title) : `${slug(session.title)}_${session.id}`;
+      const { markdown, files } = toMarkdown(session, `attachments/${fileBase}`);
+      return [{ path: `${fileBase}.md`, data: markdown }, ...files];
+    });
+    saveBlob(createZip(entries), `${baseName}.zip`);
+  }
+};
+
+/**
+ * Parses a JSON session export (or a single exported ChatSession). Throws with readable problems.
+ */
+export const parseSessionArchive = (text: string): ChatSession[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  let sessions: any[];
+  if (raw?.format === SESSION_ARCHIVE_FORMAT) {
+    if (typeof raw.version !== 'number' || raw.version > SESSION_ARCHIVE_VERSION) {
+      throw new Error(`Session export version ${raw.version} is not supported (latest: ${SESSION_ARCHIVE_VERSION}).`);
+    }
+    sessions = Array.isArray(raw.sessions) ? raw.sessions : [];
+  } else if (raw && typeof raw === 'object' && Array.isArray(raw.messages)) {
+    sessions = [raw];
+  } else {
+    throw new Error('File is not an Axora session export. Markdown and HTML exports cannot be imported; use JSON.');
+  }
+
+  const errors = sessions.flatMap((s, i) => validateSession(s, i));
+  if (errors.length > 0) {
+    throw new Error(`Invalid session export:\n${errors.slice(0, 10).join('\n')}`);
+  }
+  if (sessions.length === 0) {
+    throw new Error('The export contains no sessions.');
+  }
+  return sessions;
+};
+
+/**
+ * Imports sessions. Sessions whose ID is taken get a new one; sessions of unknown projects are kept without a project.
+ */
+export const importSessions = (incoming: ChatSession[]): ChatSession[] => {
+  const takenIds = new Set([...loadSessions(), ...loadTrash()].map(s => s.id));
+  const projectIds = new Set(loadProjects().map(p => p.id));
+  return upsertSessions(incoming.map((s, i) => ({
+    ...s,
+    id: takenIds.has(s.id) ? `${Date.now()}_${i}_${Math.random().toString(36).slice(2, 6)}` : s.id,
+    projectId: s.projectId && projectIds.has(s.projectId) ? s.projectId : null,
+    trashedAt: undefined
+  })));
+};
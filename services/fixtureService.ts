@@ -0,0 +1,163 @@
+/// <reference types="vite/client" />
+import { APIProvider, ProviderAdapter, ProviderErrorKind, ProviderFixture, ProviderOperation, ProviderRequest, ProviderResponse } from '../types';
+import { ProviderError } from './errors';
+
+const RECORDED_KEY = 'axora_fixtures_v1';
+const OPERATIONS: ProviderOperation[] = ['generateText', 'generateImage', 'search'];
+
+let bundledFixtures: Promise<ProviderFixture[]> | null = null;
+
+/**
+ * Fixture files committed under /fixtures (written by the dev server while recording). Loaded on
+ * the first replay only. `import.meta.glob` is rewritten by Vite at build time; in other runtimes
+ * (e.g. the importmap setup in index.html) it does not exist and only recorded fixtures are used.
+ */
+const loadBundledFixtures = () => {
+  if (!bundledFixtures) {
+    bundledFixtures = (async () => {
+      try {
+        const loaders = import.meta.glob('../fixtures/*.json', { import: 'default' }) as Record<string, () => Promise<ProviderFixture>>;
+        return await Promise.all(Object.values(loaders).map(load => load()));
+      } catch (e) {
+        console.warn("Bundled fixtures unavailable outside Vite:", e);
+        return [];
+      }
+    })();
+  }
+  return bundledFixtures;
+};
+
+/**
+ * Deterministic 53-bit string hash (cyrb53), rendered as hex.
+ */
+export const hashString = (input: string, seed = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * The parts of a request that determine the response. Callbacks and signals are
+ * dropped and attachment payloads are reduced to hashes to keep fixtures readable.
+ */
+export const describeRequest = (request: ProviderRequest): ProviderFixture['request'] => ({
+  model: request.model,
+  systemInstruction: request.systemInstruction,
+  history: request.history.map(m => ({ role: m.role, content: m.content })),
+  prompt: request.prompt,
+  attachments: request.attachments.map(a => ({ type: a.type, name: a.name, hash: hashString(a.data) })),
+  imageSettings: request.imageSettings,
+  researchSettings: request.researchSettings
+});
+
+export const fixtureKey = (provider: APIProvider, operation: ProviderOperation, request: ProviderRequest) =>
+  hashString(JSON.stringify([provider, operation, describeRequest(request)]));
+
+const loadRecorded = (): Record<string, ProviderFixture> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDED_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const storeFixture = async (fixture: ProviderFixture) => {
+  const recorded = loadRecorded();
+  recorded[fixture.key] = fixture;
+  try {
+    localStorage.setItem(RECORDED_KEY, JSON.stringify(recorded));
+  } catch (e) {
+    console.warn("Fixture not kept in localStorage (quota?):", e);
+  }
+
+  // The Vite dev server writes fixtures to /fixtures; not available in production builds.
+  try {
+    await fetch('/__fixtures', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(fixture) });
+  } catch {
+    // Fixtures can still be exported with downloadRecordedFixtures()
+  }
+};
+
+const findFixture = async (key: string): Promise<ProviderFixture | undefined> =>
+  loadRecorded()[key] || (await loadBundledFixtures()).find(f => f.key === key);
+
+/**
+ * Emits text in small pieces so replayed and mocked responses exercise the streaming UI.
+ */
+export const emitChunks = async (text: string, request: ProviderRequest, chunkSize = 24, delayMs = 15) => {
+  if (!request.onChunk) return;
+  for (let i = chunkSize; i < text.length + chunkSize; i += chunkSize) {
+    request.signal?.throwIfAborted();
+    request.onChunk({ text: text.slice(0, i) });
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+};
+
+/**
+ * Wraps a live adapter so that every successful call is saved as a fixture.
+ */
+export const withRecording = (adapter: ProviderAdapter): ProviderAdapter => {
+  const recording: ProviderAdapter = { id: adapter.id };
+  for (const operation of OPERATIONS) {
+    const original = adapter[operation];
+    if (!original) continue;
+    recording[operation] = async (request) => {
+      const response = await original(request);
+      await storeFixture({
+        key: fixtureKey(adapter.id, operation, request),
+        provider: adapter.id,
+        operation,
+        recordedAt: Date.now(),
+        request: describeRequest(request),
+        response
+      });
+      return response;
+    };
+  }
+  return recording;
+};
+
+/**
+ * Adapter that answers strictly from recorded fixtures. A miss means the request
+ * (including the constructed system prompt) differs from what was recorded.
+ */
+export const createReplayAdapter = (id: APIProvider): ProviderAdapter => {
+  const replay = (operation: ProviderOperation) => async (request: ProviderRequest): Promise<ProviderResponse> => {
+    const key = fixtureKey(id, operation, request);
+    const fixture = await findFixture(key);
+    if (!fixture) {
+      throw new ProviderError(ProviderErrorKind.INVALID_REQUEST, id, `No fixture recorded for this ${operation} request (key ${key}).`);
+    }
+    await emitChunks(fixture.response.text, request);
+    return fixture.response;
+  };
+
+  return {
+    id,
+    generateText: replay('generateText'),
+    generateImage: replay('generateImage'),
+    search: replay('search')
+  };
+};
+
+/**
+ * Downloads everything recorded in this browser as a single JSON file.
+ */
+export const downloadRecordedFixtures = () => {
+  const blob = new Blob([JSON.stringify(Object.values(loadRecorded()), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `axora_fixtures_${Date.now()}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,13 +1,28 @@
-import { GoogleGenAI } from "@google/genai";
-import { Mode, ModeType, Project, Message, Role, APIProvider, ImageSettings } from "../types";
+import { Mode, ModeType, Project, ProjectMemory, Message, MessageType, Role, Attachment, ImageSettings, ContextCompaction, PromptSnapshot, ProviderOperation, ProviderErrorKind, ProviderRequest, ProviderResponse, RetrievedExcerpt, KnowledgeHit, StreamChunk } from "../types";
+import { getProvider } from "./providerRegistry";
+import { ProviderError, describeError, toProviderError, withRetry } from "./errors";
+import { applyCompaction, estimateAttachmentTokens, estimateMessageTokens, estimateTokens, getContextWindow, renderCompactionSection } from "./contextService";
+import { convertImage } from "./imageService";
+import { registerBuiltInProviders } from "./providers";
+import { renderModeData } from "./memorySchemaService";
+import { renderRetrievalSection } from "./retrievalService";
+import { renderKnowledgeSection } from "./knowledgeService";
+
+/**
+ * Modes whose private memory `mode` may read, per the project's sharing rules.
+ */
+export const readableModes = (memory: ProjectMemory, mode: ModeType): ModeType[] =>
+  (memory.sharing?.[mode] || []).filter(source => source !== mode);
 
 /**
  * Constructs the System Instruction by combining:
  * 1. The Mode's base persona
  * 2. The Project's SHARED memory (Global context)
  * 3. The Project's MODE-SPECIFIC memory (Private context)
+ * 4. Other modes' private memory the sharing rules let this mode read
+ * 5. Knowledge document chunks retrieved for this turn
  */
-const constructContextualSystemPrompt = (mode: Mode, project: Project | null): string => {
+export const constructContextualSystemPrompt = (mode: Mode, project: Project | null, knowledge?: KnowledgeHit[]): string => {
   let instruction = `You are running in mode: ${mode.name} (${mode.provider}).\n${mode.systemPrompt}`;
 
   if (project) {
@@ -26,8 +41,11 @@ const constructContextualSystemPrompt = (mode: Mode, project: Project | null): s
         if (privateMem.specificInstructions) {
             instruction += `Specific Instructions: ${privateMem.specificInstructions}\n`;
         }
+        if (privateMem.facts && Object.keys(privateMem.facts).length > 0) {
+            instruction += `Private Facts: ${JSON.stringify(privateMem.facts, null, 2)}\n`;
+        }
         if (privateMem.data) {
-            instruction += `Structured Data: ${JSON.stringify(privateMem.data, null, 2)}\n`;
+            instruction += `Structured Data:\n${renderModeData(mode.id, privateMem.data)}\n`;
         }
         if (privateMem.lastState) {
             instruction += `Last Known State: ${privateMem.lastState}\n`;
@@ -35,140 +53,184 @@ const constructContextualSystemPrompt = (mode: Mode, project: Project | null): s
     } else {
         instruction += `\n(No specific memory exists for this mode yet)\n`;
     }
+
+    // 3. Inject other modes' private memory, only where the project's sharing rules allow it
+    for (const source of readableModes(project.memory, mode.id)) {
+        const sourceMem = project.memory.modeContext[source];
+        if (!sourceMem) continue;
+        instruction += `\n--- 🔗 SHARED FROM ${source.toUpperCase()} (read-only) ---\n`;
+        if (sourceMem.facts && Object.keys(sourceMem.facts).length > 0) {
+            instruction += `Facts: ${JSON.stringify(sourceMem.facts, null, 2)}\n`;
+        }
+        if (sourceMem.data) {
+            instruction += `Structured Data:\n${renderModeData(source, sourceMem.data)}\n`;
+        }
+        if (sourceMem.lastState) {
+            instruction += `Last Known State: ${sourceMem.lastState}\n`;
+        }
+    }
     
+    instruction += renderKnowledgeSection(knowledge);
+
     instruction += `\nUse this structured context to inform your response. Do not hallucinate details not in memory.`;
   }
 
   return instruction;
 };
 
+registerBuiltInProviders();
+
+/**
+ * Picks the adapter operation for a Mode based on its declared capabilities.
+ */
+const resolveOperation = (mode: Mode): ProviderOperation => {
+  if (mode.capabilities.includes('image')) return 'generateImage';
+  if (mode.capabilities.includes('search')) return 'search';
+  return 'generateText';
+};
+
+export interface SendMessageOptions {
+  imageSettings?: ImageSettings;
+  onProgress?: (status: string) => void;
+  onChunk?: (partial: StreamChunk) => void;
+  signal?: AbortSignal;
+  compaction?: ContextCompaction; // Older turns replaced by a summary (see contextService)
+  recalled?: RetrievedExcerpt[]; // Excerpts from the project's other sessions (see retrievalService)
+  knowledge?: KnowledgeHit[]; // Project document chunks (see knowledgeService)
+}
+
+/**
+ * Drops failed turns (the error message and the user prompt that triggered it), and replies
+ * stopped before any text arrived, so they never reach the model as conversation history.
+ */
+export const excludeFailedTurns = (history: Message[]): Message[] =>
+  history.filter((msg, i) =>
+    msg.type !== MessageType.ERROR &&
+    !(msg.role === Role.USER && history[i + 1]?.type === MessageType.ERROR) &&
+    !(msg.role === Role.MODEL && msg.interrupted && !msg.content && !msg.attachments?.length)
+  );
+
+/**
+ * The system instruction of a turn before compaction: persona and memory, retrieved knowledge
+ * and recalled past-session excerpts. Also used to measure the context the turn will use.
+ */
+export const buildSystemInstruction = (
+  mode: Mode,
+  project: Project | null,
+  options: Pick<SendMessageOptions, 'knowledge' | 'recalled'> = {}
+): string => constructContextualSystemPrompt(mode, project, options.knowledge) + renderRetrievalSection(options.recalled);
+
+/**
+ * Assembles the provider request for a turn, plus a snapshot of it with per-section token
+ * estimates for the prompt inspector. Streaming callbacks and the abort signal are left to the caller.
+ */
+export const buildProviderRequest = (
+  history: Message[],
+  mode: Mode,
+  project: Project | null,
+  newMessage: string,
+  attachments: Attachment[] = [],
+  options: SendMessageOptions = {}
+): { request: ProviderRequest; snapshot: PromptSnapshot } => {
+  const visibleHistory = applyCompaction(excludeFailedTurns(history), options.compaction);
+  const sections = {
+    persona: constructContextualSystemPrompt(mode, project),
+    knowledge: renderKnowledgeSection(options.knowledge),
+    recalled: renderRetrievalSection(options.recalled),
+    compaction: renderCompactionSection(options.compaction)
+  };
+
+  const request: ProviderRequest = {
+    history: visibleHistory,
+    systemInstruction: buildSystemInstruction(mode, project, options) + sections.compaction,
+    prompt: newMessage,
+    attachments,
+    model: mode.model,
+    imageSettings: options.imageSettings,
+    researchSettings: project?.researchSettings
+  };
+
+  const snapshot: PromptSnapshot = {
+    provider: mode.provider,
+    operation: resolveOperation(mode),
+    model: mode.model,
+    imageSettings: options.imageSettings,
+    researchSettings: project?.researchSettings,
+    systemInstruction: request.systemInstruction,
+    historyMessageIds: visibleHistory.map(m => m.id),
+    prompt: newMessage,
+    attachments: attachments.map(({ name, type, size }) => ({ name, type, size })),
+    tokens: [
+      { label: 'Persona & memory', tokens: estimateTokens(sections.persona) },
+      { label: 'Knowledge', tokens: estimateTokens(sections.knowledge) },
+      { label: 'Recalled sessions', tokens: estimateTokens(sections.recalled) },
+      { label: 'Compacted history', tokens: estimateTokens(sections.compaction) },
+      { label: 'History', tokens: visibleHistory.reduce((acc, m) => acc + estimateMessageTokens(m), 0) },
+      { label: 'Attachments', tokens: estimateAttachmentTokens(attachments) },
+      { label: 'Prompt', tokens: estimateTokens(newMessage) }
+    ],
+    contextWindow: getContextWindow(mode)
+  };
+
+  return { request, snapshot };
+};
+
 /**
  * Routing Layer
- * Maps the requested "Provider" (Deepseek, Fal, Tavily) to the best available Google GenAI model configuration.
+ * Resolves the Mode's provider adapter from the registry and dispatches the turn to it.
+ * Streamed output is forwarded through `onChunk`; if `signal` aborts, the partial output
+ * received so far is returned flagged as interrupted.
+ * Transient failures are retried with backoff (only before any output has streamed);
+ * anything else is thrown as a ProviderError.
  */
 export const sendMessageToGemini = async (
   history: Message[],
   mode: Mode,
   project: Project | null,
   newMessage: string,
-  attachments: { type: string, data: string }[] = [],
-  imageSettings?: ImageSettings
-): Promise<{ text: string; images?: string[]; groundingMetadata?: any }> => {
-  
-  if (!process.env.API_KEY) {
-    return { text: "Error: No API Key found. Please set REACT_APP_API_KEY or process.env.API_KEY." };
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const systemInstruction = constructContextualSystemPrompt(mode, project);
+  attachments: Attachment[] = [],
+  options: SendMessageOptions = {}
+): Promise<ProviderResponse> => {
+  let partial: StreamChunk = { text: '' };
 
   try {
-    // === ROUTING LOGIC ===
-
-    // 1. FAL.AI MODE (Mapped to Gemini Image Generation)
-    // Uses `gemini-2.5-flash-image` (Nano Banana equivalent)
-    if (mode.provider === APIProvider.FAL_AI) {
-      const aspectRatio = imageSettings?.aspectRatio || "1:1";
-      // Note: Output format is handled by converting the returned base64, 
-      // but strictly speaking Gemini outputMimeType for images isn't always configurable in the flash-image model same way as Imagen.
-      // We will simulate the "Format" selection by just handling the data appropriately in the UI, 
-      // as the API returns raw data.
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image', 
-        contents: { parts: [{ text: newMessage }] },
-        config: {
-            imageConfig: { 
-                aspectRatio: aspectRatio 
-            }
-        }
-      });
-
-      const images: string[] = [];
-      let textResponse = `Generated with Fal.ai (Nano Banana Pro emulation) in ${aspectRatio} ratio:`;
-
-      if (response.candidates && response.candidates[0].content.parts) {
-          for (const part of response.candidates[0].content.parts) {
-              if (part.inlineData) {
-                  images.push(`data:${imageSettings?.format || 'image/png'};base64,${part.inlineData.data}`);
-              } else if (part.text) {
-                  textResponse = part.text;
-              }
-          }
-      }
-      return { text: textResponse, images };
+    const adapter = getProvider(mode.provider);
+    const operation = adapter[resolveOperation(mode)];
+    if (!operation) {
+      throw new ProviderError(ProviderErrorKind.INVALID_REQUEST, mode.provider, `Provider "${adapter.id}" does not support the ${mode.name} capabilities.`);
     }
 
-    // 2. TAVILY MODE (Mapped to Gemini Search Grounding)
-    if (mode.provider === APIProvider.TAVILY) {
-       const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', // Fast model for search aggregation
-        contents: newMessage,
-        config: {
-          systemInstruction: systemInstruction,
-          tools: [{ googleSearch: {} }] // The "Tavily" equivalent capability
-        }
-      });
-      return {
-        text: response.text || "No results found via Research API.",
-        groundingMetadata: response.candidates?.[0]?.groundingMetadata
-      };
-    }
-
-    // 3. DEEPSEEK MODE (Mapped to Gemini 3 Pro with High Reasoning)
-    // Used for Ebooks and Landing Page Logic
-    if (mode.provider === APIProvider.DEEPSEEK) {
-        // Construct history
-        const chatHistory = history.map(msg => ({
-            role: msg.role === Role.USER ? 'user' : 'model',
-            parts: [{ text: msg.content }]
-        }));
-        
-        const chat = ai.chats.create({
-            model: 'gemini-3-pro-preview', // Superior reasoning model
-            history: chatHistory,
-            config: {
-                systemInstruction: systemInstruction,
-                thinkingConfig: { thinkingBudget: 1024 } // Simulate "Deep Think" behavior
-            }
-        });
-        
-        const result = await chat.sendMessage({ message: newMessage });
-        return { text: result.text || "" };
-    }
-
-    // 4. GENERAL MODE (Gemini 2.5 Flash)
-    const chatHistory = history.map(msg => ({
-        role: msg.role === Role.USER ? 'user' : 'model',
-        parts: [{ text: msg.content }]
-    }));
-
-    const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        history: chatHistory,
-        config: { systemInstruction }
+    const request: ProviderRequest = {
+      ...buildProviderRequest(history, mode, project, newMessage, attachments, options).request,
+      onProgress: options.onProgress,
+      onChunk: (chunk) => {
+        partial = chunk;
+        options.onChunk?.(chunk);
+      },
+      signal: options.signal
+    };
+
+    const response = await withRetry(() => operation(request), mode.provider, {
+      signal: options.signal,
+      canRetry: () => !partial.text && !partial.reasoning,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`Retrying ${mode.provider} (attempt ${attempt}) after ${error.kind}:`, error.message);
+        options.onProgress?.(`${describeError(error.kind)} Retrying in ${Math.round(delayMs / 1000)}s...`);
+      }
     });
 
-    // Handle attachments (Visual input)
-    if (attachments.length > 0) {
-        const parts: any[] = attachments.map(att => ({
-            inlineData: { mimeType: att.type, data: att.data }
-        }));
-        parts.push({ text: newMessage });
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { role: 'user', parts: parts },
-            config: { systemInstruction }
-        });
-        return { text: response.text || "" };
+    // Providers return whatever encoding they produce; transcode to the requested output format
+    if (response.images?.length && options.imageSettings) {
+      const { format, quality } = options.imageSettings;
+      options.onProgress?.(`Encoding ${format.split('/')[1].toUpperCase()}...`);
+      response.images = await Promise.all(response.images.map(img => convertImage(img, format, quality)));
     }
-
-    const result = await chat.sendMessage({ message: newMessage });
-    return { text: result.text || "" };
-
+    return response;
   } catch (error: any) {
+    if (options.signal?.aborted) {
+      return { ...partial, interrupted: true };
+    }
     console.error("API Gateway Error:", error);
-    return { text: `System Error (${mode.provider}): ${error.message}` };
+    throw toProviderError(error, mode.provider);
   }
-};
\ No newline at end of file
+};
@@ -1,53 +1,135 @@
 
-import { ChatSession, Message, ModeType } from '../types';
+import { ChatSession, Message, RetentionSettings } from '../types';
+import { DEFAULT_RETENTION } from '../constants';
+import { readAllSessions, removeSessions, writeSession } from './storageService';
+import { loadProjects } from './projectService';
 
-const STORAGE_KEY = 'axora_history_v1';
-const RETENTION_MS = 10 * 24 * 60 * 60 * 1000; // 10 days in milliseconds
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRASH_RETENTION_MS = 30 * DAY_MS; // Trashed sessions are purged for good after this
+export const EXPIRING_SOON_MS = 2 * DAY_MS;
+
+// Sessions are read from IndexedDB once at startup and kept in memory; every change is written through
+let cache: ChatSession[] = [];
+// Message objects as last written, per session. Messages are immutable, so a new object means a changed message
+const persisted = new Map<string, Map<string, Message>>();
+
+const byNewest = (a: ChatSession, b: ChatSession) => b.lastModified - a.lastModified;
+
+const allMessages = (session: ChatSession) => [...session.messages, ...(session.branches || [])];
+
+const track = (session: ChatSession) => persisted.set(session.id, new Map(allMessages(session).map(m => [m.id, m])));
 
 /**
- * Loads sessions from local storage and filters out expired ones.
+ * Writes only the messages of a session that were added, changed or removed since its last write.
+ * If the write fails (e.g. quota), the next save writes the whole session again.
  */
-export const loadSessions = (): ChatSession[] => {
+const persistSession = (session: ChatSession) => {
+  const previous = persisted.get(session.id) || new Map<string, Message>();
+  const messages = allMessages(session);
+  const changed = messages.filter(m => previous.get(m.id) !== m);
+  const ids = new Set(messages.map(m => m.id));
+  const removed = [...previous.keys()].filter(id => !ids.has(id));
+  track(session);
+  writeSession(session, changed, removed).then(ok => { if (!ok) persisted.delete(session.id); });
+};
+
+const updateMeta = (ids: string[], changes: (session: ChatSession) => Partial<ChatSession>) => {
+  cache = cache.map(s => {
+    if (!ids.includes(s.id)) return s;
+    const updated = { ...s, ...changes(s) };
+    persistSession(updated);
+    return updated;
+  });
+};
+
+const forget = (ids: string[]) => {
+  if (ids.length === 0) return;
+  ids.forEach(id => persisted.delete(id));
+  removeSessions(ids);
+};
+
+/**
+ * Loads stored sessions into memory (importing the old localStorage history on first run).
+ * Must finish before the other functions are used.
+ */
+export const initHistory = async () => {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    
-    const sessions: ChatSession[] = JSON.parse(raw);
-    const now = Date.now();
-    
-    // Filter sessions strictly within the retention period
-    const validSessions = sessions.filter(s => (now - s.lastModified) < RETENTION_MS);
-    
-    // If we cleaned up sessions, update storage immediately
-    if (validSessions.length !== sessions.length) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(validSessions));
-    }
-    
-    // Return sorted by newest first
-    return validSessions.sort((a, b) => b.lastModified - a.lastModified);
+    cache = (await readAllSessions()).sort(byNewest);
+    cache.forEach(track);
   } catch (e) {
     console.error("Failed to load history:", e);
-    return [];
   }
 };
 
+const active = () => cache.filter(s => !s.trashedAt);
+
+export const resolveRetention = (retention?: Partial<RetentionSettings>): RetentionSettings => ({ ...DEFAULT_RETENTION, ...retention });
+
 /**
- * Saves or updates a session in local storage.
+ * When the session will move to the trash under the given retention, or null if it is kept.
+ */
+export const sessionExpiresAt = (session: ChatSession, retention?: Partial<RetentionSettings>): number | null => {
+  const { policy, days } = resolveRetention(retention);
+  if (session.trashedAt || session.archived || policy === 'forever') return null;
+  if (policy === 'unpinned' && session.pinned) return null;
+  return session.lastModified + days * DAY_MS;
+};
+
+/**
+ * Returns sessions that are not in the trash, newest first. Has no side effects, so exports
+ * and imports can call it freely; retention is applied by sweepRetention.
+ */
+export const loadSessions = (): ChatSession[] => active();
+
+/**
+ * Moves sessions past their project's retention to the trash and purges trash older than
+ * TRASH_RETENTION_MS. Run on startup and when the active project or its settings change.
+ * Returns the sessions not in the trash.
+ */
+export const sweepRetention = (): ChatSession[] => {
+  const now = Date.now();
+  const projects = loadProjects();
+  const retentionOf = (session: ChatSession) => projects.find(p => p.id === session.projectId)?.retention;
+
+  const expired = cache.filter(s => {
+    const expiresAt = sessionExpiresAt(s, retentionOf(s));
+    return expiresAt !== null && expiresAt <= now;
+  });
+  updateMeta(expired.map(s => s.id), () => ({ trashedAt: now }));
+
+  const purged = cache.filter(s => s.trashedAt && now - s.trashedAt >= TRASH_RETENTION_MS);
+  if (purged.length > 0) {
+    cache = cache.filter(s => !purged.includes(s));
+    forget(purged.map(s => s.id));
+  }
+
+  return active();
+};
+
+/**
+ * Trashed sessions, most recently trashed first.
+ */
+export const loadTrash = (): ChatSession[] =>
+  cache.filter(s => s.trashedAt).sort((a, b) => b.trashedAt! - a.trashedAt!);
+
+/**
+ * Saves or updates a session.
  */
 export const saveSession = (session: ChatSession): ChatSession[] => {
-  const sessions = loadSessions();
-  const index = sessions.findIndex(s => s.id === session.id);
-  
   const updatedSession = { ...session, lastModified: Date.now() };
+  cache = [updatedSession, ...cache.filter(s => s.id !== session.id)];
+  persistSession(updatedSession);
+  return active();
+};
 
-  if (index >= 0) {
-    sessions[index] = updatedSession;
-  } else {
-    sessions.unshift(updatedSession);
-  }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
-  return sessions;
+export const setSessionPinned = (id: string, pinned: boolean): ChatSession[] => {
+  updateMeta([id], () => ({ pinned: pinned || undefined }));
+  return active();
+};
+
+export const setSessionArchived = (id: string, archived: boolean): ChatSession[] => {
+  updateMeta([id], () => ({ archived: archived || undefined }));
+  return active();
 };
 
 /**
@@ -88,6 +170,13 @@ export const downloadSessionAsTxt = (session: ChatSession) => {
     content += `\n----------------------------------------\n\n`;
   });
 
+  if (session.branches?.length) {
+    content += `OTHER BRANCHES (${session.branches.length} message(s))\n========================================\n\n`;
+    [...session.branches].sort((a, b) => a.timestamp - b.timestamp).forEach(msg => {
+      content += `[${new Date(msg.timestamp).toLocaleTimeString()}] ${msg.role.toUpperCase()}:\n${msg.content}\n\n----------------------------------------\n\n`;
+    });
+  }
+
   const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
   const url = URL.createObjectURL(blob);
   
@@ -100,9 +189,57 @@ export const downloadSessionAsTxt = (session: ChatSession) => {
   URL.revokeObjectURL(url);
 };
 
+/**
+ * Moves a session to the trash.
+ */
 export const deleteSession = (id: string): ChatSession[] => {
-    const sessions = loadSessions();
-    const filtered = sessions.filter(s => s.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-    return filtered;
+    updateMeta([id], () => ({ trashedAt: Date.now() }));
+    return active();
+}
+
+/**
+ * Brings a session back from the trash. It counts as modified now so it does not expire again right away.
+ */
+export const restoreSession = (id: string): ChatSession[] => {
+    updateMeta([id], () => ({ trashedAt: undefined, lastModified: Date.now() }));
+    return active();
+}
+
+/**
+ * Deletes trashed sessions for good (all of them without `ids`). Returns the remaining trash.
+ */
+export const purgeTrash = (ids?: string[]): ChatSession[] => {
+    const purged = loadTrash().filter(s => !ids || ids.includes(s.id)).map(s => s.id);
+    cache = cache.filter(s => !purged.includes(s.id));
+    forget(purged);
+    return loadTrash();
+}
+
+/**
+ * Adds or replaces sessions in bulk (e.g. from an imported bundle). Imported sessions
+ * count as modified now so the retention window does not drop them right away.
+ */
+export const upsertSessions = (incoming: ChatSession[]): ChatSession[] => {
+    const byId = new Map(cache.map(s => [s.id, s]));
+    incoming.forEach(s => {
+        const session = { ...s, lastModified: Date.now() };
+        byId.set(s.id, session);
+        persistSession(session);
+    });
+    cache = [...byId.values()].sort(byNewest);
+    return active();
+}
+
+/**
+ * Handles the sessions of a deleted project: either unassigns them (kept as
+ * project-less sessions) or moves them to the trash, also without a project.
+ */
+export const releaseProjectSessions = (projectId: string, policy: 'detach' | 'delete'): ChatSession[] => {
+    const now = Date.now();
+    const affected = cache.filter(s => s.projectId === projectId).map(s => s.id);
+    updateMeta(affected, s => ({
+        projectId: null,
+        ...(policy === 'delete' && !s.trashedAt && { trashedAt: now })
+    }));
+    return active();
 }
@@ -0,0 +1,47 @@
+import { ImageSettings } from '../types';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg'
+};
+
+export const DEFAULT_IMAGE_QUALITY = 0.92;
+
+export const dataUrlMimeType = (dataUrl: string) => dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+export const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] || 'bin';
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not decode image for conversion.'));
+  img.src = src;
+});
+
+/**
+ * Re-encodes an image into the requested format by drawing it onto a canvas.
+ * `quality` (0-1) applies to JPEG and WebP. JPEG has no alpha channel, so
+ * transparent pixels are flattened onto black to match the app background.
+ */
+export const convertImage = async (src: string, format: ImageSettings['format'], quality = DEFAULT_IMAGE_QUALITY): Promise<string> => {
+  if (dataUrlMimeType(src) === format && format === 'image/png') return src;
+
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable.');
+  if (format === 'image/jpeg') {
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const converted = canvas.toDataURL(format, quality);
+  // Browsers without an encoder for the format silently fall back to PNG
+  if (dataUrlMimeType(converted) !== format) {
+    console.warn(`${format} encoding is not supported by this browser, kept ${dataUrlMimeType(converted)}.`);
+  }
+  return converted;
+};
@@ -0,0 +1,130 @@
+import { KnowledgeDocument, KnowledgeHit, KnowledgeScope, ModeType } from '../types';
+import { extractText, resolveMimeType } from './attachmentService';
+import { buildBm25Index, createIndexCache, queryBm25, tokenize } from './retrievalService';
+
+const STORAGE_KEY = 'axora_knowledge_v1';
+
+const CHUNK_WORDS = 180;
+const CHUNK_OVERLAP_WORDS = 30;
+
+export const KNOWLEDGE_FILE_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/pdf', '.md', '.csv', '.txt'].join(',');
+const SUPPORTED_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/pdf'];
+
+// Parsed documents; every write goes through persist, which refreshes it
+let cache: KnowledgeDocument[] | null = null;
+
+const persist = (documents: KnowledgeDocument[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(documents));
+  } catch (e) {
+    throw new Error('Local storage is full. Remove documents or old sessions and try again.');
+  }
+  cache = documents;
+  return documents;
+};
+
+const generateId = () => `k_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Loads all knowledge documents, or only those of one project.
+ */
+export const loadKnowledge = (projectId?: string): KnowledgeDocument[] => {
+  try {
+    if (!cache) {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      cache = raw ? JSON.parse(raw) as KnowledgeDocument[] : [];
+    }
+    return projectId ? cache.filter(d => d.projectId === projectId) : cache;
+  } catch (e) {
+    console.error("Failed to load knowledge documents:", e);
+    return [];
+  }
+};
+
+/**
+ * Splits text into overlapping word windows so a fact near a boundary is still found.
+ */
+export const chunkText = (text: string): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += CHUNK_WORDS - CHUNK_OVERLAP_WORDS) {
+    chunks.push(words.slice(i, i + CHUNK_WORDS).join(' '));
+    if (i + CHUNK_WORDS >= words.length) break;
+  }
+  return chunks;
+};
+
+/**
+ * Extracts, chunks and stores a document for a project. Returns all stored documents.
+ * Throws an Error with a user-facing message if the file cannot be used.
+ */
+export const addKnowledgeDocument = async (projectId: string, file: File, scope: KnowledgeScope): Promise<KnowledgeDocument[]> => {
+  const type = resolveMimeType(file);
+  if (!SUPPORTED_TYPES.includes(type)) {
+    throw new Error(`${file.name}: only txt, md, csv and pdf documents are supported.`);
+  }
+  const text = await extractText(file, type);
+  if (!text?.trim()) {
+    throw new Error(`${file.name}: no text could be extracted.`);
+  }
+
+  const document: KnowledgeDocument = {
+    id: generateId(),
+    projectId,
+    name: file.name,
+    type,
+    size: file.size,
+    scope,
+    addedAt: Date.now(),
+    chunks: chunkText(text)
+  };
+  return persist([...loadKnowledge(), document]);
+};
+
+export const setKnowledgeScope = (id: string, scope: KnowledgeScope): KnowledgeDocument[] =>
+  persist(loadKnowledge().map(d => d.id === id ? { ...d, scope } : d));
+
+export const deleteKnowledgeDocument = (id: string): KnowledgeDocument[] =>
+  persist(loadKnowledge().filter(d => d.id !== id));
+
+/**
+ * Removes all documents of a deleted project.
+ */
+export const deleteProjectKnowledge = (projectId: string): KnowledgeDocument[] =>
+  persist(loadKnowledge().filter(d => d.projectId !== projectId));
+
+/**
+ * Adds or replaces documents in bulk (e.g. from an imported bundle).
+ */
+export const upsertKnowledge = (incoming: KnowledgeDocument[]): KnowledgeDocument[] => {
+  const ids = new Set(incoming.map(d => d.id));
+  return persist([...loadKnowledge().filter(d => !ids.has(d.id)), ...incoming]);
+};
+
+const knowledgeIndex = createIndexCache<Omit<KnowledgeHit, 'score'>>();
+
+/**
+ * Finds the document chunks most relevant to the query among the documents visible to the mode.
+ */
+export const retrieveKnowledge = (projectId: string, mode: ModeType, query: string, limit = 4): KnowledgeHit[] => {
+  if (tokenize(query).length === 0) return [];
+  const index = knowledgeIndex([loadKnowledge(), projectId, mode], () => buildBm25Index(
+    loadKnowledge(projectId)
+      .filter(d => d.scope === 'shared' || d.scope === mode)
+      .flatMap(d => d.chunks.map((text, chunkIndex) => ({ documentId: d.id, documentName: d.name, chunkIndex, text }))),
+    c => c.text
+  ));
+
+  return queryBm25(index, query)
+    .slice(0, limit)
+    .map(({ item, score }) => ({ ...item, score }));
+};
+
+/**
+ * Renders retrieved chunks as a prompt section the model can cite from.
+ */
+export const renderKnowledgeSection = (hits?: KnowledgeHit[]) => {
+  if (!hits?.length) return '';
+  const entries = hits.map((hit, i) => `[K${i + 1}] ${hit.documentName} (part ${hit.chunkIndex + 1}):\n${hit.text}`);
+  return `\n\n--- 📎 PROJECT KNOWLEDGE (cite as [K1], [K2]... when you use it) ---\n${entries.join('\n\n')}\n`;
+};
@@ -0,0 +1,156 @@
+import { APIProvider, MemoryProposal, MemoryProposalSource, Message, MessageType, Mode, ModeData, ModeMemory, ModeType, Project, ProjectMemory, Role } from '../types';
+import { getProvider } from './providerRegistry';
+import { currentMemoryVersion } from './memoryHistoryService';
+import { defaultModeData, describeModeSchema, validateModeData } from './memorySchemaService';
+
+const EXTRACTION_MODEL = 'gemini-2.5-flash';
+const TRANSCRIPT_MESSAGES = 10;
+
+interface ExtractionResult {
+  summary?: string | null;
+  keyFacts?: { key: string; value: string | null }[];
+  lastState?: string | null;
+  data?: Record<string, any> | null;
+}
+
+const isSame = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Models often wrap JSON in markdown fences; strip them before parsing.
+ */
+const parseJson = (text: string) => JSON.parse(text.replace(/```(json)?/g, '').trim());
+
+const buildInstruction = (mode: Mode, memory: ProjectMemory) => `You maintain the long-term memory of a project workspace.
+Compare the CURRENT MEMORY with the latest conversation in mode "${mode.name}" and propose updates.
+
+CURRENT MEMORY:
+- Shared summary: ${memory.sharedContext.summary || '(empty)'}
+- Shared key facts: ${JSON.stringify(memory.sharedContext.keyFacts)}
+- ${mode.name} last state: ${memory.modeContext[mode.id]?.lastState || '(none)'}
+- ${mode.name} structured data: ${JSON.stringify(memory.modeContext[mode.id]?.data ?? null)}
+
+Reply ONLY with JSON of this shape:
+{
+  "summary": string | null,            // new shared summary, or null if unchanged
+  "keyFacts": [{ "key": string, "value": string | null }],  // new/changed facts; value null removes a fact
+  "lastState": string | null,          // where the work in this mode stands now, or null if unchanged
+  "data": object | null                // top-level keys of structured data to replace (e.g. "outline"), or null
+}
+Structured data for ${mode.name} follows this shape: ${describeModeSchema(mode.id)}
+Only include durable facts and decisions the user confirmed. Do not restate unchanged memory.`;
+
+const buildTranscript = (messages: Message[]) => messages
+  .filter(m => m.type !== MessageType.ERROR && m.content)
+  .slice(-TRANSCRIPT_MESSAGES)
+  .map(m => `${m.role === Role.USER ? 'USER' : 'ASSISTANT'}: ${m.content}`)
+  .join('\n\n');
+
+/**
+ * Turns the model's extraction result into per-item proposals, dropping no-ops.
+ */
+export const toProposals = (result: ExtractionResult, mode: Mode, memory: ProjectMemory, source: MemoryProposalSource): MemoryProposal[] => {
+  const proposals: MemoryProposal[] = [];
+  const tag = () => ({ id: `prop_${proposals.length}_${Date.now().toString(36)}`, ...source });
+  const modeMemory = memory.modeContext[mode.id];
+
+  if (result.summary && result.summary !== memory.sharedContext.summary) {
+    proposals.push({ ...tag(), kind: 'summary', before: memory.sharedContext.summary, after: result.summary });
+  }
+
+  for (const fact of result.keyFacts || []) {
+    if (!fact?.key) continue;
+    const before = memory.sharedContext.keyFacts[fact.key];
+    if (fact.value === null && before === undefined) continue;
+    if (fact.value === before) continue;
+    proposals.push({ ...tag(), kind: 'keyFact', key: fact.key, before, after: fact.value });
+  }
+
+  if (result.lastState && result.lastState !== modeMemory?.lastState) {
+    proposals.push({ ...tag(), kind: 'lastState', mode: mode.id, before: modeMemory?.lastState, after: result.lastState });
+  }
+
+  if (result.data && typeof result.data === 'object') {
+    const current: Record<string, any> = modeMemory?.data || defaultModeData(mode.id);
+    for (const [path, after] of Object.entries(result.data)) {
+      const before = current[path];
+      if (path === 'schemaVersion' || isSame(before, after)) continue;
+      // Skip values that would break the mode's schema
+      // (errors start with the field path; `data.tone` must not match `data.toneNotes`)
+      const prefix = `data.${path}`;
+      const fieldErrors = validateModeData(mode.id, { ...current, [path]: after })
+        .filter(e => e.startsWith(prefix) && [' ', '.', '['].includes(e.charAt(prefix.length)));
+      if (fieldErrors.length > 0) continue;
+      proposals.push({ ...tag(), kind: 'data', mode: mode.id, path, before, after });
+    }
+  }
+
+  return proposals;
+};
+
+/**
+ * Asks the model which memory entries the recent conversation should change.
+ */
+export const proposeMemoryUpdates = async (mode: Mode, project: Project, messages: Message[]): Promise<MemoryProposal[]> => {
+  const transcript = buildTranscript(messages);
+  if (!transcript) return [];
+
+  const response = await getProvider(APIProvider.GEMINI).generateText!({
+    history: [],
+    systemInstruction: buildInstruction(mode, project.memory),
+    prompt: `CONVERSATION:\n${transcript}`,
+    attachments: [],
+    model: { model: EXTRACTION_MODEL, temperature: 0.1 }
+  });
+
+  return toProposals(parseJson(response.text), mode, project.memory, { projectId: project.id, memoryVersion: currentMemoryVersion(project) });
+};
+
+export const isCurrentProposal = (proposal: MemoryProposal, project: Project) =>
+  proposal.projectId === project.id && proposal.memoryVersion === currentMemoryVersion(project);
+
+const proposalTarget = (p: MemoryProposal) =>
+  p.kind === 'keyFact' ? `keyFact:${p.key}` : p.kind === 'lastState' ? `lastState:${p.mode}` : p.kind === 'data' ? `data:${p.mode}:${p.path}` : p.kind;
+
+/**
+ * Adds newly extracted proposals to the pending ones. A new proposal replaces a pending one for
+ * the same entry; pending proposals made against an older version of the same project are dropped.
+ */
+export const mergeMemoryProposals = (pending: MemoryProposal[], incoming: MemoryProposal[], source: MemoryProposalSource): MemoryProposal[] => {
+  const replaced = new Set(incoming.map(proposalTarget));
+  return [
+    ...pending.filter(p => p.projectId !== source.projectId
+      || (p.memoryVersion === source.memoryVersion && !replaced.has(proposalTarget(p)))),
+    ...incoming
+  ];
+};
+
+/**
+ * Writes accepted proposals into a copy of the memory.
+ */
+export const applyMemoryProposals = (memory: ProjectMemory, proposals: MemoryProposal[]): ProjectMemory => {
+  const next: ProjectMemory = structuredClone(memory);
+  const modeContext = next.modeContext as Record<ModeType, ModeMemory>;
+
+  for (const proposal of proposals) {
+    switch (proposal.kind) {
+      case 'summary':
+        next.sharedContext.summary = proposal.after;
+        break;
+      case 'keyFact':
+        if (proposal.after === null) delete next.sharedContext.keyFacts[proposal.key];
+        else next.sharedContext.keyFacts[proposal.key] = proposal.after;
+        break;
+      case 'lastState':
+        modeContext[proposal.mode] = { ...modeContext[proposal.mode], lastState: proposal.after };
+        break;
+      case 'data': {
+        const entry = modeContext[proposal.mode] || {};
+        // Data created by a proposal starts from the schema's defaults so required fields exist
+        const data = { ...(entry.data || defaultModeData(proposal.mode)), [proposal.path]: proposal.after };
+        modeContext[proposal.mode] = { ...entry, data: data as ModeData };
+        break;
+      }
+    }
+  }
+  return next;
+};
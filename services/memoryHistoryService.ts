@@ -0,0 +1,100 @@
+import { MemoryAuthor, MemoryChange, MemoryVersion, ModeType, Project, ProjectMemory } from "../types";
+
+const MAX_VERSIONS = 50;
+
+/**
+ * Returns the project's memory versions, oldest first. Projects saved before
+ * versioning existed get a synthetic first version holding their current memory.
+ */
+export const getMemoryHistory = (project: Project): MemoryVersion[] => {
+  if (project.memoryHistory?.length) return project.memoryHistory;
+  return [{
+    version: 1,
+    memory: project.memory,
+    author: 'user',
+    reason: 'Initial memory',
+    timestamp: project.createdAt ?? 0
+  }];
+};
+
+export const currentMemoryVersion = (project: Project): number => {
+  const history = getMemoryHistory(project);
+  return history[history.length - 1].version;
+};
+
+/**
+ * Appends `memory` as a new version. Returns the fields to store on the project.
+ * Only the newest MAX_VERSIONS are kept; version numbers keep increasing.
+ */
+export const recordMemoryVersion = (
+  project: Project,
+  memory: ProjectMemory,
+  author: MemoryAuthor,
+  reason: string
+): Pick<Project, 'memory' | 'memoryHistory'> => {
+  const next: MemoryVersion = {
+    version: currentMemoryVersion(project) + 1,
+    memory: structuredClone(memory),
+    author,
+    reason,
+    timestamp: Date.now()
+  };
+  return { memory, memoryHistory: [...getMemoryHistory(project), next].slice(-MAX_VERSIONS) };
+};
+
+const formatValue = (value: any) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+/**
+ * Flattens memory into labelled text entries so two versions can be compared line by line.
+ * Object-shaped mode data is split per top-level key.
+ */
+const flattenMemory = (memory: ProjectMemory): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  if (memory.sharedContext.summary) entries['Shared · Summary'] = memory.sharedContext.summary;
+  for (const [key, value] of Object.entries(memory.sharedContext.keyFacts)) {
+    entries[`Shared · Key Fact · ${key}`] = value;
+  }
+
+  for (const [mode, sources] of Object.entries(memory.sharing || {})) {
+    if (sources?.length) entries[`${mode} · Reads`] = sources.join(', ');
+  }
+
+  for (const [mode, context] of Object.entries(memory.modeContext) as [ModeType, ProjectMemory['modeContext'][ModeType]][]) {
+    if (!context) continue;
+    if (context.specificInstructions) entries[`${mode} · Instructions`] = context.specificInstructions;
+    if (context.lastState) entries[`${mode} · Last State`] = context.lastState;
+    for (const [key, value] of Object.entries(context.facts || {})) {
+      entries[`${mode} · Fact · ${key}`] = value;
+    }
+    if (context.data === undefined) continue;
+    if (context.data && typeof context.data === 'object' && !Array.isArray(context.data)) {
+      for (const [key, value] of Object.entries(context.data)) {
+        if (key === 'schemaVersion') continue;
+        entries[`${mode} · Data · ${key}`] = formatValue(value);
+      }
+    } else {
+      entries[`${mode} · Data`] = formatValue(context.data);
+    }
+  }
+  return entries;
+};
+
+/**
+ * Lists the entries that were added, removed or changed between two memory snapshots.
+ */
+export const diffMemory = (before: ProjectMemory, after: ProjectMemory): MemoryChange[] => {
+  const a = flattenMemory(before);
+  const b = flattenMemory(after);
+  const labels = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return labels
+    .filter(label => a[label] !== b[label])
+    .map(label => ({ label, before: a[label], after: b[label] }));
+};
+
+export const describeAuthor = (author: MemoryAuthor) => {
+  switch (author) {
+    case 'user': return 'Manual edit';
+    case 'auto_extraction': return 'Auto-extraction';
+    case 'import': return 'Import';
+  }
+};
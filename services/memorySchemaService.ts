@@ -0,0 +1,233 @@
+import { ModeData, ModeDataMap, ModeMemory, ModeType, ProjectMemory } from "../types";
+
+export const MODE_DATA_SCHEMA_VERSION = 1;
+
+type Check = (value: any, path: string) => string[];
+
+interface ModeSchema<M extends ModeType> {
+  validate: Check;
+  // migrations[n] upgrades data from schemaVersion n to n + 1 (data without a version is v0)
+  migrations: ((data: any) => any)[];
+  render: (data: ModeDataMap[M]) => string;
+  example: ModeDataMap[M];
+  describe: string; // Shape description for prompts that write this data
+}
+
+// --- Validation helpers ---
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const string = (optional = false): Check => (value, path) =>
+  (optional && value === undefined) || typeof value === 'string' ? [] : [`${path} must be a string`];
+
+const number = (optional = false): Check => (value, path) =>
+  (optional && value === undefined) || (typeof value === 'number' && Number.isFinite(value)) ? [] : [`${path} must be a number`];
+
+const oneOf = (options: readonly string[]): Check => (value, path) =>
+  options.includes(value) ? [] : [`${path} must be one of: ${options.join(', ')}`];
+
+const arrayOf = (item: Check, optional = false): Check => (value, path) => {
+  if (optional && value === undefined) return [];
+  if (!Array.isArray(value)) return [`${path} must be a list`];
+  return value.flatMap((entry, i) => item(entry, `${path}[${i}]`));
+};
+
+const object = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  const unknown = Object.keys(value).filter(key => !(key in fields));
+  return [
+    ...unknown.map(key => `${path}.${key} is not a known field`),
+    ...Object.entries(fields).flatMap(([key, check]) => check(value[key], `${path}.${key}`))
+  ];
+};
+
+const list = (items?: string[]) => items?.length ? items.join(', ') : '';
+
+// --- Schemas ---
+
+const SECTION_KINDS = ['hero', 'problem', 'features', 'social_proof', 'pricing', 'faq', 'cta', 'custom'] as const;
+const SECTION_STATUSES = ['todo', 'draft', 'final'] as const;
+const CHAPTER_STATUSES = ['planned', 'drafting', 'review', 'done'] as const;
+
+// Marks data as migrated to v1
+const stampVersion = (data: any) => ({ ...data, schemaVersion: 1 });
+
+const SCHEMAS: { [M in ModeType]: ModeSchema<M> } = {
+  [ModeType.GENERAL]: {
+    validate: object({ schemaVersion: number(), notes: arrayOf(string()) }),
+    // v0 was free-form; keep every other key as a note so nothing is dropped
+    migrations: [(data) => stampVersion({
+      notes: [
+        ...(Array.isArray(data.notes) ? data.notes.map(String) : []),
+        ...Object.entries(data)
+          .filter(([key]) => key !== 'notes')
+          .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      ]
+    })],
+    render: (data) => data.notes.map(note => `- ${note}`).join('\n'),
+    example: { schemaVersion: 1, notes: ['Prefers concise answers'] },
+    describe: '{ "notes": string[] }'
+  },
+  [ModeType.LANDING_PAGE]: {
+    validate: object({
+      schemaVersion: number(),
+      audience: string(true),
+      primaryCta: string(true),
+      sections: arrayOf(object({
+        kind: oneOf(SECTION_KINDS),
+        headline: string(),
+        copy: string(true),
+        status: oneOf(SECTION_STATUSES)
+      }))
+    }),
+    migrations: [(data) => stampVersion({ ...data, sections: Array.isArray(data.sections) ? data.sections : [] })],
+    render: (data) => [
+      data.audience && `Audience: ${data.audience}`,
+      data.primaryCta && `Primary CTA: ${data.primaryCta}`,
+      'Sections:',
+      ...data.sections.map((s, i) => `${i + 1}. [${s.status}] ${s.kind}: ${s.headline}${s.copy ? ` — ${s.copy}` : ''}`)
+    ].filter(Boolean).join('\n'),
+    example: {
+      schemaVersion: 1,
+      audience: 'Engineering managers',
+      primaryCta: 'Start free trial',
+      sections: [{ kind: 'hero', headline: 'Ship calmer', status: 'draft' }]
+    },
+    describe: `{ "audience"?: string, "primaryCta"?: string, "sections": [{ "kind": ${SECTION_KINDS.map(k => `"${k}"`).join('|')}, "headline": string, "copy"?: string, "status": ${SECTION_STATUSES.map(k => `"${k}"`).join('|')} }] }`
+  },
+  [ModeType.EBOOK]: {
+    validate: object({
+      schemaVersion: number(),
+      title: string(true),
+      outline: arrayOf(object({
+        title: string(),
+        status: oneOf(CHAPTER_STATUSES),
+        summary: string(true),
+        wordCount: number(true)
+      }))
+    }),
+    // v0 stored the outline as plain chapter titles
+    migrations: [(data) => stampVersion({
+      ...data,
+      outline: (Array.isArray(data.outline) ? data.outline : []).map((chapter: any) =>
+        typeof chapter === 'string' ? { title: chapter, status: 'planned' } : { status: 'planned', ...chapter })
+    })],
+    render: (data) => [
+      data.title && `Title: ${data.title}`,
+      'Outline:',
+      ...data.outline.map((c, i) => `${i + 1}. [${c.status}] ${c.title}${c.wordCount ? ` (${c.wordCount} words)` : ''}${c.summary ? ` — ${c.summary}` : ''}`)
+    ].filter(Boolean).join('\n'),
+    example: { schemaVersion: 1, title: 'Working Title', outline: [{ title: 'Chapter 1: Introduction', status: 'planned' }] },
+    describe: `{ "title"?: string, "outline": [{ "title": string, "status": ${CHAPTER_STATUSES.map(k => `"${k}"`).join('|')}, "summary"?: string, "wordCount"?: number }] }`
+  },
+  [ModeType.IMAGE_GEN]: {
+    validate: object({
+      schemaVersion: number(),
+      palette: arrayOf(string()),
+      mood: string(true),
+      typography: string(true),
+      keywords: arrayOf(string()),
+      avoid: arrayOf(string())
+    }),
+    migrations: [(data) => stampVersion({ palette: [], keywords: [], avoid: [], ...data })],
+    render: (data) => [
+      data.palette.length > 0 && `Palette: ${list(data.palette)}`,
+      data.mood && `Mood: ${data.mood}`,
+      data.typography && `Typography: ${data.typography}`,
+      data.keywords.length > 0 && `Style keywords: ${list(data.keywords)}`,
+      data.avoid.length > 0 && `Avoid: ${list(data.avoid)}`
+    ].filter(Boolean).join('\n'),
+    example: { schemaVersion: 1, palette: ['#0b0b0b', '#d6b376'], mood: 'Calm, premium', keywords: ['minimal', 'film grain'], avoid: ['neon'] },
+    describe: '{ "palette": string[] (hex), "mood"?: string, "typography"?: string, "keywords": string[], "avoid": string[] }'
+  },
+  [ModeType.MARKET_RESEARCH]: {
+    validate: object({
+      schemaVersion: number(),
+      competitors: arrayOf(object({
+        name: string(),
+        url: string(true),
+        positioning: string(true),
+        pricing: string(true),
+        strengths: arrayOf(string(), true),
+        weaknesses: arrayOf(string(), true)
+      }))
+    }),
+    // v0 stored competitors as plain names
+    migrations: [(data) => stampVersion({
+      ...data,
+      competitors: (Array.isArray(data.competitors) ? data.competitors : []).map((c: any) => typeof c === 'string' ? { name: c } : c)
+    })],
+    render: (data) => data.competitors.map(c => [
+      `- ${c.name}${c.url ? ` (${c.url})` : ''}`,
+      c.positioning && `  Positioning: ${c.positioning}`,
+      c.pricing && `  Pricing: ${c.pricing}`,
+      c.strengths?.length && `  Strengths: ${list(c.strengths)}`,
+      c.weaknesses?.length && `  Weaknesses: ${list(c.weaknesses)}`
+    ].filter(Boolean).join('\n')).join('\n'),
+    example: { schemaVersion: 1, competitors: [{ name: 'Asana', pricing: 'Per seat', strengths: ['Brand'], weaknesses: ['Complex'] }] },
+    describe: '{ "competitors": [{ "name": string, "url"?: string, "positioning"?: string, "pricing"?: string, "strengths"?: string[], "weaknesses"?: string[] }] }'
+  }
+};
+
+const schemaFor = (mode: ModeType) => SCHEMAS[mode] as unknown as ModeSchema<ModeType>;
+
+/**
+ * Returns the schema violations of a mode's structured data (empty when valid).
+ */
+export const validateModeData = (mode: ModeType, data: unknown): string[] => {
+  const errors = schemaFor(mode).validate(data, 'data');
+  if (isObject(data) && (data as any).schemaVersion !== MODE_DATA_SCHEMA_VERSION) {
+    errors.push(`data.schemaVersion must be ${MODE_DATA_SCHEMA_VERSION}`);
+  }
+  return errors;
+};
+
+/**
+ * Upgrades stored data to the current schema version. Data that cannot be migrated is returned unchanged
+ * so nothing is lost; validation flags it in the memory editor.
+ */
+export const migrateModeData = (mode: ModeType, data: any): ModeData | undefined => {
+  if (data === undefined || data === null) return undefined;
+  if (!isObject(data)) return data;
+
+  const { migrations } = schemaFor(mode);
+  let current = data;
+  for (let version = current.schemaVersion ?? 0; version < MODE_DATA_SCHEMA_VERSION; version++) {
+    try {
+      current = migrations[version](current);
+    } catch (e) {
+      console.warn(`Could not migrate ${mode} data from v${version}:`, e);
+      return data;
+    }
+  }
+  return current;
+};
+
+/**
+ * Migrates the structured data of every mode in a memory snapshot.
+ */
+export const migrateProjectMemory = (memory: ProjectMemory): ProjectMemory => {
+  const modeContext: ProjectMemory['modeContext'] = {};
+  for (const [mode, context] of Object.entries(memory.modeContext) as [ModeType, ModeMemory | undefined][]) {
+    if (!context) continue;
+    (modeContext as Record<ModeType, ModeMemory>)[mode] = { ...context, data: migrateModeData(mode, context.data) };
+  }
+  return { ...memory, modeContext };
+};
+
+/**
+ * Renders structured data as readable context for the system prompt. Invalid data falls back to JSON.
+ */
+export const renderModeData = (mode: ModeType, data: ModeData): string => {
+  if (validateModeData(mode, data).length > 0) return JSON.stringify(data, null, 2);
+  return schemaFor(mode).render(data);
+};
+
+export const exampleModeData = (mode: ModeType): ModeData => schemaFor(mode).example;
+
+/**
+ * Empty data with every required field, as produced by migrating data without any fields.
+ */
+export const defaultModeData = (mode: ModeType): ModeData => migrateModeData(mode, {})!;
+
+export const describeModeSchema = (mode: ModeType): string => schemaFor(mode).describe;
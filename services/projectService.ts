@@ -0,0 +1,124 @@
+import { MemoryAuthor, Project, ProjectMemory } from '../types';
+import { DEFAULT_PROJECTS } from '../constants';
+import { getMemoryHistory, recordMemoryVersion } from './memoryHistoryService';
+import { migrateProjectMemory } from './memorySchemaService';
+import { warn } from './storageService';
+
+const STORAGE_KEY = 'axora_projects_v1';
+
+/**
+ * Writes all projects. Memory history makes this the largest localStorage entry, so a full
+ * quota is reported as a storage warning instead of throwing inside UI handlers; the
+ * in-memory state is kept so the change can be retried after freeing space.
+ */
+const persist = (projects: Project[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+  } catch (e) {
+    console.error("Failed to save projects:", e);
+    warn({ kind: 'quota', message: 'Storage is full. Project and memory changes were not saved. Delete knowledge documents or old sessions to free space.' });
+  }
+  return projects;
+};
+
+const generateId = () => `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Brings stored mode data (current memory and history snapshots) up to the current schema version.
+ */
+const migrateProject = (project: Project): Project => ({
+  ...project,
+  memory: migrateProjectMemory(project.memory),
+  memoryHistory: project.memoryHistory?.map(v => ({ ...v, memory: migrateProjectMemory(v.memory) }))
+});
+
+/**
+ * Loads projects from local storage. On first run the store is seeded with DEFAULT_PROJECTS.
+ */
+export const loadProjects = (): Project[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return persist(structuredClone(DEFAULT_PROJECTS));
+    return (JSON.parse(raw) as Project[]).map(migrateProject);
+  } catch (e) {
+    console.error("Failed to load projects:", e);
+    return structuredClone(DEFAULT_PROJECTS);
+  }
+};
+
+/**
+ * Saves or updates a project.
+ */
+export const saveProject = (project: Project): Project[] => {
+  const projects = loadProjects();
+  const index = projects.findIndex(p => p.id === project.id);
+  const updated = { ...project, updatedAt: Date.now() };
+
+  if (index >= 0) {
+    projects[index] = updated;
+  } else {
+    projects.push(updated);
+  }
+  return persist(projects);
+};
+
+export const createProject = (details: Pick<Project, 'name' | 'description' | 'researchSettings' | 'autoExtractMemory' | 'retention'>): { project: Project; projects: Project[] } => {
+  const project: Project = {
+    id: generateId(),
+    ...details,
+    memory: {
+      sharedContext: { summary: '', keyFacts: {} },
+      modeContext: {}
+    },
+    createdAt: Date.now()
+  };
+  return { project, projects: saveProject(project) };
+};
+
+export const updateProject = (id: string, changes: Partial<Omit<Project, 'id'>>): Project[] => {
+  const project = loadProjects().find(p => p.id === id);
+  if (!project) return loadProjects();
+  return saveProject({ ...project, ...changes });
+};
+
+/**
+ * Replaces a project's memory and records the change as a new memory version.
+ */
+export const commitMemory = (id: string, memory: ProjectMemory, author: MemoryAuthor, reason: string): Project[] => {
+  const project = loadProjects().find(p => p.id === id);
+  if (!project) return loadProjects();
+  return saveProject({ ...project, ...recordMemoryVersion(project, memory, author, reason) });
+};
+
+/**
+ * Restores the memory of an earlier version. The rollback is itself recorded as a new version.
+ */
+export const rollbackMemory = (id: string, version: number): Project[] => {
+  const project = loadProjects().find(p => p.id === id);
+  const target = project && getMemoryHistory(project).find(v => v.version === version);
+  if (!project || !target) return loadProjects();
+  return commitMemory(id, structuredClone(target.memory), 'user', `Rolled back to v${version}`);
+};
+
+/**
+ * Copies a project including its memory. Sessions are not copied.
+ */
+export const duplicateProject = (id: string): Project[] => {
+  const source = loadProjects().find(p => p.id === id);
+  if (!source) return loadProjects();
+  return saveProject({
+    ...structuredClone(source),
+    id: generateId(),
+    name: `${source.name} (copy)`,
+    archived: false,
+    createdAt: Date.now()
+  });
+};
+
+export const setProjectArchived = (id: string, archived: boolean): Project[] => updateProject(id, { archived });
+
+/**
+ * Removes a project. Its sessions are handled by the caller (see historyService).
+ */
+export const deleteProject = (id: string): Project[] =>
+  persist(loadProjects().filter(p => p.id !== id));
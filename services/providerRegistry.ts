@@ -0,0 +1,23 @@
+import { APIProvider, ProviderAdapter } from '../types';
+
+const adapters = new Map<APIProvider, ProviderAdapter>();
+
+/**
+ * Registers (or replaces) the adapter serving a provider key.
+ */
+export const registerProvider = (adapter: ProviderAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+/**
+ * Resolves the adapter for a provider key. Throws if nothing is registered.
+ */
+export const getProvider = (id: APIProvider): ProviderAdapter => {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    throw new Error(`No adapter registered for provider "${id}".`);
+  }
+  return adapter;
+};
+
+export const listProviders = (): ProviderAdapter[] => Array.from(adapters.values());
@@ -0,0 +1,132 @@
+import { APIProvider, Attachment, Message, ProviderAdapter, ProviderErrorKind, ProviderRequest, Role } from "../../types";
+import { ProviderError, httpError, missingKeyError } from "../errors";
+import { attachmentAsText, isImageAttachment } from "../attachmentService";
+
+const DEFAULT_BASE_URL = 'https://api.deepseek.com';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Base URL of the OpenAI-compatible endpoint. Override with DEEPSEEK_BASE_URL
+ * (e.g. http://localhost:8080/v1) to run against a local stub.
+ */
+const getBaseUrl = () => (process.env.DEEPSEEK_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+/**
+ * DeepSeek is text-only: files are inlined as extracted text, images are only named.
+ */
+const withAttachments = (content: string, attachments: Attachment[] = []) => {
+  if (attachments.length === 0) return content;
+  const blocks = attachments.map(att => isImageAttachment(att)
+    ? `[Image attachment "${att.name}" omitted: this model does not accept images]`
+    : attachmentAsText(att));
+  return `${blocks.join('\n\n')}\n\n${content}`;
+};
+
+/**
+ * Builds the chat-completions message list. Reasoning traces from earlier turns are
+ * deliberately left out: the API rejects `reasoning_content` in input messages.
+ */
+export const buildChatMessages = (history: Message[], systemInstruction: string, prompt: string, attachments: Attachment[] = []): ChatCompletionMessage[] => [
+  { role: 'system', content: systemInstruction },
+  ...history
+    .filter(msg => msg.role !== Role.SYSTEM)
+    .map(msg => msg.role === Role.USER
+      ? { role: 'user' as const, content: withAttachments(msg.content, msg.attachments) }
+      : { role: 'assistant' as const, content: msg.content }),
+  { role: 'user', content: withAttachments(prompt, attachments) }
+];
+
+const DONE = Symbol('done');
+
+/**
+ * Parses one SSE line. Returns DONE at the end marker and undefined for lines without a
+ * (valid) JSON payload; a malformed chunk is skipped rather than failing the whole reply.
+ */
+const parseEventLine = (line: string): any => {
+  const payload = line.trim();
+  if (!payload.startsWith('data:')) return undefined;
+  const data = payload.slice(5).trim();
+  if (data === '[DONE]') return DONE;
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn("Skipped malformed DeepSeek stream chunk:", data);
+    return undefined;
+  }
+};
+
+/**
+ * Yields the JSON payload of every `data:` line of a server-sent event stream.
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const event = parseEventLine(line);
+      if (event === DONE) return;
+      if (event !== undefined) yield event;
+    }
+  }
+
+  // The stream may end without a trailing newline
+  const last = parseEventLine(buffer + decoder.decode());
+  if (last !== undefined && last !== DONE) yield last;
+}
+
+const generateText = async (request: ProviderRequest) => {
+  if (!process.env.DEEPSEEK_API_KEY) {
+    throw missingKeyError(APIProvider.DEEPSEEK, 'DEEPSEEK_API_KEY');
+  }
+
+  const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`
+    },
+    body: JSON.stringify({
+      model: request.model.model,
+      messages: buildChatMessages(request.history, request.systemInstruction, request.prompt, request.attachments),
+      ...(request.model.temperature !== undefined && { temperature: request.model.temperature }),
+      stream: true
+    }),
+    signal: request.signal
+  });
+
+  if (!response.ok || !response.body) {
+    throw await httpError(APIProvider.DEEPSEEK, response, 'DeepSeek request');
+  }
+
+  let text = '';
+  let reasoning = '';
+  for await (const event of readEventStream(response.body)) {
+    if (event.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ProviderError(ProviderErrorKind.SAFETY, APIProvider.DEEPSEEK, 'Response stopped by the DeepSeek content filter.');
+    }
+    const delta = event.choices?.[0]?.delta;
+    if (!delta) continue;
+    if (delta.reasoning_content) reasoning += delta.reasoning_content;
+    if (delta.content) text += delta.content;
+    request.onChunk?.({ text, reasoning: reasoning || undefined });
+  }
+
+  return { text, reasoning: reasoning || undefined };
+};
+
+export const deepseekAdapter: ProviderAdapter = {
+  id: APIProvider.DEEPSEEK,
+  generateText
+};
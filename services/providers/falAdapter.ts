@@ -0,0 +1,202 @@
+import { APIProvider, ProviderAdapter, ProviderErrorKind, ProviderRequest } from "../../types";
+import { FAL_MODELS } from "../../constants";
+import { httpError, missingKeyError, ProviderError, toProviderError, withRetry } from "../errors";
+import { attachmentAsText, attachmentSrc, isImageAttachment } from "../attachmentService";
+
+const DEFAULT_QUEUE_URL = 'https://queue.fal.run';
+const POLL_INTERVAL_MS = 1000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_CONTEXT_CHARS = 1500; // Image models weigh the start of the prompt most; keep the context short
+
+/**
+ * Base URL of the Fal.ai queue. Override with FAL_QUEUE_URL to use a local fake.
+ */
+const getQueueUrl = () => (process.env.FAL_QUEUE_URL || DEFAULT_QUEUE_URL).replace(/\/+$/, '');
+
+const falFetch = async (url: string, init?: RequestInit) => {
+  if (!process.env.FAL_KEY) {
+    throw missingKeyError(APIProvider.FAL_AI, 'FAL_KEY');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Key ${process.env.FAL_KEY}`,
+      ...init?.headers
+    }
+  });
+
+  if (!response.ok) {
+    throw await httpError(APIProvider.FAL_AI, response, 'Fal.ai request');
+  }
+  return response.json();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Downloads a generated image so it can be stored as a data URL alongside the message.
+ */
+const toDataUrl = async (url: string, signal?: AbortSignal): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw await httpError(APIProvider.FAL_AI, response, 'Fal.ai image download');
+  }
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Fal has no system prompt, so the project context (memory, style guide, knowledge) is condensed
+ * and placed ahead of the user's prompt. The mode persona is dropped: it instructs a chat model,
+ * not the image model.
+ */
+const condenseContext = (systemInstruction: string) => {
+  const start = systemInstruction.indexOf('\n\n=== ');
+  if (start < 0) return '';
+  const context = systemInstruction.slice(start)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('Use this structured context'))
+    .join('\n');
+  return context.length > MAX_CONTEXT_CHARS ? `${context.slice(0, MAX_CONTEXT_CHARS)}…` : context;
+};
+
+const buildInput = (request: ProviderRequest, modelId: string) => {
+  const settings = request.imageSettings;
+  const model = FAL_MODELS.find(m => m.id === modelId);
+  const aspectRatio = settings?.aspectRatio || '1:1';
+
+  // Input images go to the model's edit endpoint; text files are folded into the prompt
+  const inputImages = request.attachments.filter(isImageAttachment).map(attachmentSrc);
+  const documents = request.attachments.filter(att => !isImageAttachment(att)).map(attachmentAsText);
+  const imageInput = inputImages.length > 0 && model?.edit
+    ? { [model.edit.imageParam]: model.edit.imageParam === 'image_urls' ? inputImages : inputImages[0] }
+    : {};
+
+  const context = condenseContext(request.systemInstruction);
+
+  return {
+    prompt: [context && `Follow this project context (style and constraints):\n${context}`, ...documents, request.prompt].filter(Boolean).join('\n\n'),
+    ...imageInput,
+    num_images: settings?.numImages ?? 1,
+    ...(model?.sizeParam === 'image_size'
+      ? { image_size: ASPECT_TO_IMAGE_SIZE[aspectRatio] }
+      : { aspect_ratio: aspectRatio }),
+    ...(settings?.seed !== undefined && { seed: settings.seed }),
+    ...(settings?.guidanceScale !== undefined && model?.supportsGuidance && { guidance_scale: settings.guidanceScale }),
+    output_format: settings?.format === 'image/jpeg' ? 'jpeg' : 'png'
+  };
+};
+
+const ASPECT_TO_IMAGE_SIZE: Record<string, string> = {
+  '1:1': 'square_hd',
+  '16:9': 'landscape_16_9',
+  '9:16': 'portrait_16_9',
+  '4:3': 'landscape_4_3',
+  '3:4': 'portrait_4_3'
+};
+
+/**
+ * Polls a submitted job and downloads its images, retrying each call on its own.
+ */
+const collectResult = async (
+  request: ProviderRequest,
+  modelId: string,
+  { requestId, statusUrl, responseUrl }: { requestId: string; statusUrl: string; responseUrl: string }
+) => {
+  const report = request.onProgress || (() => {});
+  const retrying = <T>(fn: () => Promise<T>) => withRetry(fn, APIProvider.FAL_AI, {
+    signal: request.signal,
+    onRetry: (error, attempt) => report(`Fal.ai ${error.kind} error, retrying (attempt ${attempt})...`)
+  });
+  const startedAt = Date.now();
+
+  while (true) {
+    const status = await retrying(() => falFetch(statusUrl, { signal: request.signal }));
+    if (status.status === 'COMPLETED') break;
+
+    if (status.status === 'IN_QUEUE') {
+      report(`Queued${status.queue_position !== undefined ? ` (position ${status.queue_position})` : ''}...`);
+    } else if (status.status === 'IN_PROGRESS') {
+      const lastLog = status.logs?.[status.logs.length - 1]?.message;
+      report(lastLog ? `Rendering: ${lastLog}` : 'Rendering...');
+    }
+
+    if (Date.now() - startedAt > POLL_TIMEOUT_MS) {
+      throw new ProviderError(ProviderErrorKind.NETWORK, APIProvider.FAL_AI, `Fal.ai request ${requestId} timed out.`, { retryable: false });
+    }
+    await sleep(POLL_INTERVAL_MS, request.signal);
+  }
+
+  report('Downloading results...');
+  const result = await retrying(() => falFetch(responseUrl, { signal: request.signal }));
+  if (result.has_nsfw_concepts?.some(Boolean)) {
+    throw new ProviderError(ProviderErrorKind.SAFETY, APIProvider.FAL_AI, 'Fal.ai flagged the generated image(s) as unsafe.');
+  }
+  const images = await Promise.all((result.images || []).map((img: any) => retrying(() => toDataUrl(img.url, request.signal))));
+
+  const modelLabel = FAL_MODELS.find(m => m.id === modelId)?.label || modelId;
+  return {
+    text: `Generated ${images.length} image(s) with ${modelLabel}${result.seed !== undefined ? ` (seed ${result.seed})` : ''}:`,
+    images
+  };
+};
+
+/**
+ * Submits to the Fal.ai queue, polls until the request completes and
+ * returns the images as data URLs. Once the job is submitted, transient failures are retried
+ * here (poll, result, download) and anything that still fails is final, so the router never
+ * resubmits a paid job.
+ */
+const generateImage = async (request: ProviderRequest) => {
+  const modelId = request.imageSettings?.model || request.model.model;
+  const model = FAL_MODELS.find(m => m.id === modelId);
+  const report = request.onProgress || (() => {});
+
+  const hasInputImages = request.attachments.some(isImageAttachment);
+  if (hasInputImages && !model?.edit) {
+    throw new ProviderError(ProviderErrorKind.INVALID_REQUEST, APIProvider.FAL_AI,
+      `${model?.label || modelId} does not accept input images. Pick a model that supports editing.`);
+  }
+  const endpoint = hasInputImages && model?.edit ? model.edit.endpoint : modelId;
+
+  report('Submitting to Fal.ai queue...');
+  const submission = await falFetch(`${getQueueUrl()}/${endpoint}`, {
+    method: 'POST',
+    body: JSON.stringify(buildInput(request, modelId)),
+    signal: request.signal
+  });
+
+  const statusUrl: string = submission.status_url || `${getQueueUrl()}/${endpoint}/requests/${submission.request_id}/status`;
+  const responseUrl: string = submission.response_url || `${getQueueUrl()}/${endpoint}/requests/${submission.request_id}`;
+
+  try {
+    return await collectResult(request, modelId, { requestId: submission.request_id, statusUrl, responseUrl });
+  } catch (e) {
+    if (request.signal?.aborted) throw e;
+    throw toProviderError(e, APIProvider.FAL_AI).final();
+  }
+};
+
+export const falAdapter: ProviderAdapter = {
+  id: APIProvider.FAL_AI,
+  generateImage
+};
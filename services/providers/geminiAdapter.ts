@@ -0,0 +1,130 @@
+import { GoogleGenAI } from "@google/genai";
+import { APIProvider, Attachment, Message, ProviderAdapter, ProviderErrorKind, ProviderRequest, Role } from "../../types";
+import { ProviderError, missingKeyError } from "../errors";
+import { attachmentAsText, isImageAttachment } from "../attachmentService";
+
+const getClient = (provider: APIProvider) => {
+  if (!process.env.API_KEY) {
+    throw missingKeyError(provider, 'GEMINI_API_KEY');
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Gemini reports safety blocks inside an otherwise successful response.
+ */
+const assertNotBlocked = (provider: APIProvider, response: any) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new ProviderError(ProviderErrorKind.SAFETY, provider, `Response blocked (${blockReason || finishReason}).`);
+  }
+};
+
+/**
+ * Attachments may be stored as raw base64 or as full data URLs (generated images).
+ * The GenAI SDK only accepts the raw payload.
+ */
+export const stripDataUrl = (data: string) => data.replace(/^data:[^;]+;base64,/, '');
+
+/**
+ * Images and PDFs go inline (Gemini reads both natively); other files as extracted text.
+ */
+const toParts = (attachments: Attachment[] = []) =>
+  attachments.map(att => (isImageAttachment(att) || att.type === 'application/pdf')
+    ? { inlineData: { mimeType: att.type, data: stripDataUrl(att.data) } }
+    : { text: attachmentAsText(att) });
+
+// Gemini rejects empty text parts (e.g. attachment-only turns)
+const textPart = (text: string) => text ? [{ text }] : [];
+
+/**
+ * Converts chat history plus the pending turn into GenAI `contents`.
+ * Files the user attached on earlier turns stay part of the history. Turns left without
+ * any part are dropped.
+ */
+export const buildContents = (history: Message[], prompt: string, attachments: Attachment[]) => [
+  ...history.map(msg => ({
+    role: msg.role === Role.USER ? 'user' : 'model',
+    parts: [...(msg.role === Role.USER ? toParts(msg.attachments) : []), ...textPart(msg.content)]
+  })),
+  { role: 'user', parts: [...toParts(attachments), ...textPart(prompt)] }
+].filter(content => content.parts.length > 0);
+
+const buildConfig = (request: ProviderRequest) => ({
+  systemInstruction: request.systemInstruction,
+  abortSignal: request.signal,
+  ...(request.model.temperature !== undefined && { temperature: request.model.temperature }),
+  ...(request.model.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: request.model.thinkingBudget } })
+});
+
+/**
+ * Streams a completion, forwarding the accumulated text to `request.onChunk`.
+ * Grounding metadata arrives with the final chunks, so the last one seen wins.
+ */
+const streamContent = async (provider: APIProvider, request: ProviderRequest, config: Record<string, unknown>) => {
+  const stream = await getClient(provider).models.generateContentStream({
+    model: request.model.model,
+    contents: buildContents(request.history, request.prompt, request.attachments),
+    config
+  });
+
+  let text = '';
+  let groundingMetadata: any;
+  for await (const chunk of stream) {
+    assertNotBlocked(provider, chunk);
+    if (chunk.text) {
+      text += chunk.text;
+      request.onChunk?.({ text });
+    }
+    groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+  }
+  return { text, groundingMetadata };
+};
+
+/**
+ * Creates a Gemini-backed adapter. The same implementation can be registered under
+ * several provider keys so that modes keep working before a dedicated backend exists.
+ */
+export const createGeminiAdapter = (id: APIProvider): ProviderAdapter => ({
+  id,
+
+  generateText: async (request) => {
+    const { text } = await streamContent(id, request, buildConfig(request));
+    return { text };
+  },
+
+  search: async (request) => {
+    const { text, groundingMetadata } = await streamContent(id, request, { ...buildConfig(request), tools: [{ googleSearch: {} }] });
+    return {
+      text: text || "No results found via Research API.",
+      groundingMetadata
+    };
+  },
+
+  generateImage: async (request) => {
+    const aspectRatio = request.imageSettings?.aspectRatio || "1:1";
+    // Gemini image models do not let us pick the output MIME type; the router
+    // transcodes to the requested format afterwards.
+    const response = await getClient(id).models.generateContent({
+      model: request.model.model,
+      contents: { parts: [...toParts(request.attachments), ...textPart(request.prompt)] },
+      config: { imageConfig: { aspectRatio }, abortSignal: request.signal }
+    });
+    assertNotBlocked(id, response);
+
+    const images: string[] = [];
+    let text = `Generated with ${id} in ${aspectRatio} ratio:`;
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        images.push(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+      } else if (part.text) {
+        text = part.text;
+      }
+    }
+    return { text, images };
+  }
+});
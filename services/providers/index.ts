@@ -0,0 +1,43 @@
+import { APIProvider, ProviderAdapter, ProviderMode } from '../../types';
+import { registerProvider } from '../providerRegistry';
+import { createReplayAdapter, withRecording } from '../fixtureService';
+import { createGeminiAdapter } from './geminiAdapter';
+import { deepseekAdapter } from './deepseekAdapter';
+import { tavilyAdapter } from './tavilyAdapter';
+import { falAdapter } from './falAdapter';
+import { createMockAdapter } from './mockAdapter';
+
+export const getProviderMode = (): ProviderMode => {
+  const mode = process.env.AXORA_PROVIDER_MODE as ProviderMode | undefined;
+  return mode && ['live', 'mock', 'record', 'replay'].includes(mode) ? mode : 'live';
+};
+
+/**
+ * Live adapters. Every provider key falls back to the Gemini adapter
+ * (using the model named in the Mode) until a dedicated backend replaces it.
+ */
+const liveAdapters = (): ProviderAdapter[] => {
+  const adapters = new Map<APIProvider, ProviderAdapter>();
+  Object.values(APIProvider).forEach(id => adapters.set(id, createGeminiAdapter(id)));
+  [deepseekAdapter, tavilyAdapter, falAdapter].forEach(adapter => adapters.set(adapter.id, adapter));
+  return Array.from(adapters.values());
+};
+
+/**
+ * Registers the built-in adapters according to AXORA_PROVIDER_MODE.
+ */
+export const registerBuiltInProviders = () => {
+  switch (getProviderMode()) {
+    case 'mock':
+      Object.values(APIProvider).forEach(id => registerProvider(createMockAdapter(id)));
+      break;
+    case 'replay':
+      Object.values(APIProvider).forEach(id => registerProvider(createReplayAdapter(id)));
+      break;
+    case 'record':
+      liveAdapters().forEach(adapter => registerProvider(withRecording(adapter)));
+      break;
+    default:
+      liveAdapters().forEach(registerProvider);
+  }
+};
@@ -0,0 +1,82 @@
+import { APIProvider, ProviderAdapter, ProviderRequest } from "../../types";
+import { emitChunks, hashString } from "../fixtureService";
+
+const PALETTE = ['#d6b376', '#aa8c55', '#2a2a2a', '#4b6584', '#8854d0', '#20bf6b', '#eb3b5a', '#0fb9b1'];
+
+const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+const DIMENSIONS: Record<string, [number, number]> = {
+  '1:1': [512, 512], '16:9': [768, 432], '9:16': [432, 768], '4:3': [640, 480], '3:4': [480, 640]
+};
+
+/**
+ * Renders a deterministic SVG placeholder whose colours are derived from the prompt.
+ */
+const renderPlaceholder = (prompt: string, index: number, aspectRatio = '1:1') => {
+  const hash = hashString(prompt, index);
+  const [w, h] = DIMENSIONS[aspectRatio] || DIMENSIONS['1:1'];
+  const from = PALETTE[parseInt(hash.slice(0, 2), 16) % PALETTE.length];
+  const to = PALETTE[parseInt(hash.slice(2, 4), 16) % PALETTE.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" fill="#0a0a0a" font-family="monospace" font-size="16" text-anchor="middle">${escapeXml(prompt.slice(0, 40))}</text>` +
+    `<text x="50%" y="58%" fill="#0a0a0a" font-family="monospace" font-size="11" text-anchor="middle">MOCK ${hash}</text></svg>`;
+  return `data:image/svg+xml;base64,${toBase64(svg)}`;
+};
+
+const describe = (id: APIProvider, request: ProviderRequest) => {
+  const hash = hashString(request.systemInstruction + request.prompt);
+  return `**[MOCK · ${id} · ${request.model.model}]**\n\n` +
+    `Deterministic response \`${hash}\` to: "${request.prompt.slice(0, 120)}"\n\n` +
+    `- History turns: ${request.history.length}\n` +
+    `- Attachments: ${request.attachments.length}\n` +
+    `- System prompt: ${request.systemInstruction.length} chars`;
+};
+
+/**
+ * Offline adapter returning deterministic text, images and grounding sources.
+ * Enabled for every provider key with AXORA_PROVIDER_MODE=mock.
+ */
+export const createMockAdapter = (id: APIProvider): ProviderAdapter => ({
+  id,
+
+  generateText: async (request) => {
+    const text = describe(id, request);
+    await emitChunks(text, request);
+    return {
+      text,
+      reasoning: id === APIProvider.DEEPSEEK ? `Mock reasoning for ${hashString(request.prompt)}.` : undefined
+    };
+  },
+
+  search: async (request) => {
+    const text = `${describe(id, request)}\n\nFindings are attributed to [1] and [2].`;
+    await emitChunks(text, request);
+    const slug = hashString(request.prompt).slice(0, 8);
+    return {
+      text,
+      groundingMetadata: {
+        webSearchQueries: [request.prompt],
+        groundingChunks: [
+          { web: { uri: `https://example.com/research/${slug}`, title: `Mock Source A (${slug})` } },
+          { web: { uri: `https://example.org/report/${slug}`, title: `Mock Source B (${slug})` } }
+        ]
+      }
+    };
+  },
+
+  generateImage: async (request) => {
+    const count = request.imageSettings?.numImages ?? 1;
+    request.onProgress?.('Rendering mock image...');
+    const images = Array.from({ length: count }, (_, i) => renderPlaceholder(request.prompt, i, request.imageSettings?.aspectRatio));
+    return { text: `Generated ${count} mock image(s):`, images };
+  }
+});
@@ -0,0 +1,140 @@
+import { APIProvider, ProviderAdapter, ProviderRequest, ResearchSettings } from "../../types";
+import { DEFAULT_RESEARCH_SETTINGS } from "../../constants";
+import { createGeminiAdapter } from "./geminiAdapter";
+import { httpError, missingKeyError } from "../errors";
+
+const DEFAULT_BASE_URL = 'https://api.tavily.com';
+
+// Tavily handles retrieval; the synthesis step runs on the Gemini model named in the Mode.
+const synthesizer = createGeminiAdapter(APIProvider.TAVILY);
+
+interface TavilyResult {
+  url: string;
+  title: string;
+  content: string;
+  score?: number;
+  rawContent?: string;
+}
+
+/**
+ * Base URL of the Tavily API. Override with TAVILY_BASE_URL to point at a local fake server.
+ */
+const getBaseUrl = () => (process.env.TAVILY_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+const tavilyFetch = async (path: string, body: Record<string, unknown>, signal?: AbortSignal) => {
+  if (!process.env.TAVILY_API_KEY) {
+    throw missingKeyError(APIProvider.TAVILY, 'TAVILY_API_KEY');
+  }
+
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.TAVILY_API_KEY}`
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await httpError(APIProvider.TAVILY, response, `Tavily ${path}`);
+  }
+  return response.json();
+};
+
+const search = async (query: string, settings: ResearchSettings, signal?: AbortSignal): Promise<TavilyResult[]> => {
+  const data = await tavilyFetch('/search', {
+    query,
+    search_depth: settings.searchDepth,
+    max_results: settings.maxResults,
+    ...(settings.includeDomains.length > 0 && { include_domains: settings.includeDomains }),
+    ...(settings.excludeDomains.length > 0 && { exclude_domains: settings.excludeDomains })
+  }, signal);
+  return (data.results || []).map((r: any) => ({ url: r.url, title: r.title, content: r.content, score: r.score }));
+};
+
+const extract = async (urls: string[], signal?: AbortSignal): Promise<Record<string, string>> => {
+  if (urls.length === 0) return {};
+  const data = await tavilyFetch('/extract', { urls }, signal);
+  const contents: Record<string, string> = {};
+  for (const r of data.results || []) {
+    if (r.url && r.raw_content) contents[r.url] = r.raw_content;
+  }
+  return contents;
+};
+
+/**
+ * Expands the user's request into up to `maxQueries` search queries.
+ * Falls back to the raw prompt when only one query is allowed or planning fails.
+ */
+const planQueries = async (request: ProviderRequest, maxQueries: number): Promise<string[]> => {
+  if (maxQueries <= 1) return [request.prompt];
+
+  try {
+    const plan = await synthesizer.generateText!({
+      ...request,
+      history: [],
+      attachments: [],
+      onChunk: undefined,
+      systemInstruction: `You plan web searches. Reply ONLY with a JSON array of at most ${maxQueries} short search queries covering the user's request.`
+    });
+    const queries = JSON.parse(plan.text.replace(/```(json)?/g, '').trim());
+    if (Array.isArray(queries) && queries.length > 0) {
+      return queries.slice(0, maxQueries).map(String);
+    }
+  } catch (e) {
+    if (request.signal?.aborted) throw e;
+    console.warn("Query planning failed, using raw prompt:", e);
+  }
+  return [request.prompt];
+};
+
+const formatSources = (results: TavilyResult[]) =>
+  results.map((r, i) => {
+    const body = r.rawContent ? r.rawContent.slice(0, 4000) : r.content;
+    return `[${i + 1}] ${r.title}\nURL: ${r.url}\n${body}`;
+  }).join('\n\n');
+
+/**
+ * Search -> (optional) extract -> synthesize.
+ * Sources are returned in the `groundingMetadata.groundingChunks` shape used by Gemini grounding.
+ */
+const researchAndAnswer = async (request: ProviderRequest) => {
+  const settings = { ...DEFAULT_RESEARCH_SETTINGS, ...request.researchSettings };
+  const queries = await planQueries(request, settings.maxQueries);
+
+  // Run all queries and de-duplicate by URL, keeping the best-scored hit
+  const byUrl = new Map<string, TavilyResult>();
+  for (const batch of await Promise.all(queries.map(q => search(q, settings, request.signal)))) {
+    for (const result of batch) {
+      const existing = byUrl.get(result.url);
+      if (!existing || (result.score ?? 0) > (existing.score ?? 0)) byUrl.set(result.url, result);
+    }
+  }
+  const results = Array.from(byUrl.values()).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+
+  if (settings.extractTopResults > 0) {
+    const extracted = await extract(results.slice(0, settings.extractTopResults).map(r => r.url), request.signal);
+    results.forEach(r => { if (extracted[r.url]) r.rawContent = extracted[r.url]; });
+  }
+
+  const synthesis = await synthesizer.generateText!({
+    ...request,
+    systemInstruction: `${request.systemInstruction}\n\n=== 🔎 WEB SOURCES (Tavily) ===\n` +
+      (results.length > 0 ? formatSources(results) : '(No results found)') +
+      `\n\nAnswer using these sources and cite them inline as [n].`
+  });
+
+  return {
+    text: synthesis.text || "No results found via Research API.",
+    groundingMetadata: {
+      webSearchQueries: queries,
+      groundingChunks: results.map(r => ({ web: { uri: r.url, title: r.title } }))
+    }
+  };
+};
+
+export const tavilyAdapter: ProviderAdapter = {
+  id: APIProvider.TAVILY,
+  search: researchAndAnswer
+};
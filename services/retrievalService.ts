@@ -0,0 +1,158 @@
+import { ChatSession, MessageType, RetrievedExcerpt, Role } from '../types';
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const PASSAGE_WORDS = 120; // Long messages are split into passages of about this many words
+const MAX_EXCERPT_CHARS = 700;
+const MIN_SCORE = 1;
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'we',
+  'they', 'he', 'she', 'me', 'my', 'our', 'your', 'can', 'do', 'does', 'did', 'not', 'no', 'so', 'what', 'how',
+  'w', 'z', 'na', 'nie', 'się', 'jest', 'że', 'o', 'jak', 'po', 'co', 'ale', 'za', 'od'
+]);
+
+const truncate = (text: string) => text.length > MAX_EXCERPT_CHARS ? `${text.slice(0, MAX_EXCERPT_CHARS)}…` : text;
+
+export const tokenize = (text: string): string[] => {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(t => t.length > 1 && !STOPWORDS.has(t));
+};
+
+type Passage = Omit<RetrievedExcerpt, 'score'>;
+
+export interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+const splitPassages = (text: string): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length <= PASSAGE_WORDS) return [text];
+  const passages: string[] = [];
+  for (let i = 0; i < words.length; i += PASSAGE_WORDS) {
+    passages.push(words.slice(i, i + PASSAGE_WORDS).join(' '));
+  }
+  return passages;
+};
+
+// Tokenized items with the corpus statistics BM25 needs; only the query changes between lookups
+export interface Bm25Index<T> {
+  items: T[];
+  counts: Map<string, number>[]; // Term frequencies per item
+  lengths: number[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+export const buildBm25Index = <T>(items: T[], getText: (item: T) => string): Bm25Index<T> => {
+  const docs = items.map(item => tokenize(getText(item)));
+  const docFreq = new Map<string, number>();
+  const counts = docs.map(terms => {
+    const tf = new Map<string, number>();
+    terms.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+    tf.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1));
+    return tf;
+  });
+  const lengths = docs.map(terms => terms.length);
+  const avgLength = docs.length > 0 ? lengths.reduce((acc, n) => acc + n, 0) / docs.length : 0;
+  return { items, counts, lengths, docFreq, avgLength };
+};
+
+/**
+ * Ranks the indexed items against the query with BM25, best first. Items scoring below `minScore` are dropped.
+ */
+export const queryBm25 = <T>(index: Bm25Index<T>, query: string, minScore = MIN_SCORE): Ranked<T>[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || index.items.length === 0) return [];
+
+  const idf = new Map(queryTerms.map(term => {
+    const df = index.docFreq.get(term) || 0;
+    return [term, Math.log(1 + (index.items.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return index.counts
+    .map((counts, i) => {
+      const norm = K1 * (1 - B + B * index.lengths[i] / (index.avgLength || 1));
+      const score = queryTerms.reduce((acc, term) => {
+        const tf = counts.get(term) || 0;
+        return acc + (tf === 0 ? 0 : idf.get(term)! * (tf * (K1 + 1)) / (tf + norm));
+      }, 0);
+      return { item: index.items[i], score: Math.round(score * 100) / 100 };
+    })
+    .filter(r => r.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Keeps the last built index and reuses it while its inputs are the same values (by identity),
+ * so retrieval while typing only re-runs the query.
+ */
+export const createIndexCache = <T>() => {
+  let last: { inputs: readonly unknown[]; index: Bm25Index<T> } | null = null;
+  return (inputs: readonly unknown[], build: () => Bm25Index<T>): Bm25Index<T> => {
+    const same = last && last.inputs.length === inputs.length && last.inputs.every((input, i) => input === inputs[i]);
+    if (!same) last = { inputs, index: build() };
+    return last!.index;
+  };
+};
+
+const passageIndex = createIndexCache<Passage>();
+
+/**
+ * Splits every (non-error) message of the given sessions into searchable passages.
+ */
+const toPassages = (sessions: ChatSession[]): Passage[] => sessions.flatMap(session =>
+  session.messages
+    .filter(msg => msg.type !== MessageType.ERROR && msg.content.trim())
+    .flatMap(msg => splitPassages(msg.content).map(text => ({
+      sessionId: session.id,
+      sessionTitle: session.title,
+      messageId: msg.id,
+      role: msg.role,
+      timestamp: msg.timestamp,
+      text
+    })))
+);
+
+/**
+ * Finds the passages of the project's other sessions most relevant to the query.
+ */
+export const retrievePastExcerpts = (
+  sessions: ChatSession[],
+  projectId: string,
+  currentSessionId: string | null,
+  query: string,
+  limit = 4
+): RetrievedExcerpt[] => {
+  if (tokenize(query).length === 0) return [];
+  // Only the session being written changes while chatting; the others keep their identity, so the index is reused
+  const pastSessions = sessions.filter(s => s.projectId === projectId && s.id !== currentSessionId);
+  const index = passageIndex(pastSessions, () => buildBm25Index(toPassages(pastSessions), p => p.text));
+  const ranked = queryBm25(index, query);
+
+  // At most one passage per message
+  const seenMessages = new Set<string>();
+  const results: RetrievedExcerpt[] = [];
+  for (const { item, score } of ranked) {
+    if (results.length >= limit) break;
+    if (seenMessages.has(item.messageId)) continue;
+    seenMessages.add(item.messageId);
+    results.push({ ...item, text: truncate(item.text), score });
+  }
+  return results;
+};
+
+/**
+ * Renders recalled excerpts as a system prompt section.
+ */
+export const renderRetrievalSection = (excerpts?: RetrievedExcerpt[]) => {
+  if (!excerpts?.length) return '';
+  const entries = excerpts.map((e, i) =>
+    `[${i + 1}] Session "${e.sessionTitle}" (${new Date(e.timestamp).toLocaleDateString()}), ${e.role === Role.USER ? 'user' : 'assistant'}:\n${e.text}`
+  );
+  return `\n\n--- 📚 RECALLED FROM PAST SESSIONS OF THIS PROJECT (may be outdated; memory takes precedence) ---\n${entries.join('\n\n')}\n`;
+};
@@ -0,0 +1,96 @@
+import { ChatSession, MessageType, Project, SessionFilters, SessionGrouping, SessionSearchMatch, SessionSearchResult } from '../types';
+
+const SNIPPET_CONTEXT = 50; // Characters shown on each side of the first hit
+const MAX_MATCHES_PER_SESSION = 3;
+
+export const EMPTY_FILTERS: SessionFilters = { query: '', modeId: 'all', projectId: 'all' };
+
+export const searchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+export const hasActiveFilters = (filters: SessionFilters) =>
+  !!filters.query.trim() || filters.modeId !== 'all' || filters.projectId !== 'all' || !!filters.from || !!filters.to;
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const snippetAround = (text: string, index: number) => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + SNIPPET_CONTEXT * 2);
+  const flat = text.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${flat}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Applies mode, project and date filters, then full-text search. A session matches when every
+ * search term appears in its title or in one of its messages.
+ */
+export const searchSessions = (sessions: ChatSession[], filters: SessionFilters): SessionSearchResult[] => {
+  const terms = searchTerms(filters.query);
+  const from = filters.from ? startOfDay(filters.from) : -Infinity;
+  const to = filters.to ? startOfDay(filters.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+  return sessions
+    .filter(s => filters.modeId === 'all' || s.modeId === filters.modeId)
+    .filter(s => filters.projectId === 'all' || (filters.projectId === 'none' ? !s.projectId : s.projectId === filters.projectId))
+    .filter(s => s.lastModified >= from && s.lastModified < to)
+    .flatMap(session => {
+      if (terms.length === 0) return [{ session, titleMatch: false, matches: [] }];
+
+      const title = session.title.toLowerCase();
+      const messages = session.messages.filter(m => m.type !== MessageType.ERROR);
+      const contents = messages.map(m => m.content.toLowerCase());
+      if (!terms.every(t => title.includes(t) || contents.some(c => c.includes(t)))) return [];
+
+      const matches: SessionSearchMatch[] = [];
+      messages.forEach((msg, i) => {
+        const hits = terms.map(t => contents[i].indexOf(t)).filter(index => index >= 0);
+        if (hits.length === 0 || matches.length >= MAX_MATCHES_PER_SESSION) return;
+        matches.push({ messageId: msg.id, role: msg.role, snippet: snippetAround(msg.content, Math.min(...hits)) });
+      });
+      return [{ session, titleMatch: terms.some(t => title.includes(t)), matches }];
+    });
+};
+
+/**
+ * Splits text into parts so the search terms can be highlighted.
+ */
+export const highlightParts = (text: string, terms: string[]): { text: string; match: boolean }[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text
+    .split(new RegExp(`(${escaped.join('|')})`, 'gi'))
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
+
+const dayLabel = (timestamp: number) => {
+  const day = new Date(timestamp).setHours(0, 0, 0, 0);
+  const today = new Date().setHours(0, 0, 0, 0);
+  if (day === today) return 'Today';
+  if (today - day === 24 * 60 * 60 * 1000) return 'Yesterday';
+  return new Date(day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+/**
+ * Groups results by project or by day of last change, keeping their order. 'none' yields one unlabeled group.
+ */
+export const groupResults = (
+  results: SessionSearchResult[],
+  grouping: SessionGrouping,
+  projects: Project[]
+): { key: string; label: string; results: SessionSearchResult[] }[] => {
+  if (grouping === 'none') return [{ key: 'all', label: '', results }];
+
+  const groups = new Map<string, { key: string; label: string; results: SessionSearchResult[] }>();
+  for (const result of results) {
+    const { session } = result;
+    const key = grouping === 'project'
+      ? session.projectId || 'none'
+      : new Date(session.lastModified).toDateString();
+    const label = grouping === 'project'
+      ? projects.find(p => p.id === session.projectId)?.name || 'No Context'
+      : dayLabel(session.lastModified);
+    if (!groups.has(key)) groups.set(key, { key, label, results: [] });
+    groups.get(key)!.results.push(result);
+  }
+  return [...groups.values()];
+};
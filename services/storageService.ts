@@ -0,0 +1,283 @@
+import { Attachment, ChatSession, Message, StorageWarning } from '../types';
+import { attachmentBytes } from './attachmentService';
+import { dataUrlMimeType } from './imageService';
+
+const DB_NAME = 'axora';
+const LEGACY_HISTORY_KEY = 'axora_history_v1';
+const NEARLY_FULL_RATIO = 0.9;
+
+// Stored shapes: messages and attachment blobs live in their own stores so a turn writes only what changed
+type SessionRecord = Omit<ChatSession, 'messages' | 'branches'> & { messageIds: string[]; branchIds?: string[] };
+type AttachmentRef = Omit<Attachment, 'data'> & { blobId: string; dataUrl: boolean };
+type MessageRecord = Omit<Message, 'attachments'> & { sessionId: string; attachments?: AttachmentRef[] };
+type BlobRecord = { id: string; blob: Blob };
+
+/**
+ * Schema migrations, one per database version. Each runs inside the upgrade transaction,
+ * so a failed migration leaves the previous version untouched.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: sessions, messages and attachment blobs; imports the old localStorage history once
+  (db, tx) => {
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    db.createObjectStore('messages', { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+    db.createObjectStore('attachments', { keyPath: 'id' });
+    importLegacyHistory(tx);
+  }
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let legacyImported = false;
+let warnedNearlyFull = false;
+const listeners = new Set<(warning: StorageWarning) => void>();
+
+let latestWarning: StorageWarning | null = null;
+
+/**
+ * Subscribes to storage warnings (quota reached, storage unavailable). A warning raised before
+ * subscribing (e.g. while loading) is delivered right away. Returns an unsubscribe function.
+ */
+export const onStorageWarning = (listener: (warning: StorageWarning) => void) => {
+  listeners.add(listener);
+  if (latestWarning) listener(latestWarning);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Raises a storage warning. Also used by the localStorage-backed stores when a write fails.
+ */
+export const warn = (warning: StorageWarning) => {
+  latestWarning = warning;
+  listeners.forEach(listener => listener(warning));
+};
+
+const isQuotaError = (error: DOMException | null) => error?.name === 'QuotaExceededError';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') {
+    resolve(null);
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, STORAGE_SCHEMA_VERSION);
+  request.onupgradeneeded = (event) => {
+    const tx = request.transaction!;
+    for (let version = event.oldVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+      MIGRATIONS[version](request.result, tx);
+    }
+  };
+  request.onsuccess = () => {
+    // The legacy copy is only dropped once the upgrade that imported it has committed
+    if (legacyImported) localStorage.removeItem(LEGACY_HISTORY_KEY);
+    if (latestWarning?.kind === 'blocked') latestWarning = null;
+    const db = request.result;
+    // A newer version is opening in another tab: let go so its upgrade is not blocked.
+    // Later writes from this tab are skipped until it is reloaded.
+    db.onversionchange = () => {
+      db.close();
+      dbPromise = Promise.resolve(null);
+      warn({ kind: 'outdated', message: 'Axora was updated in another tab. Reload this tab to keep saving history.' });
+    };
+    resolve(db);
+  };
+  request.onerror = () => {
+    console.error("Failed to open history database:", request.error);
+    resolve(null);
+  };
+  // Another tab still has the previous version open; the open resumes once it closes
+  request.onblocked = () => warn({ kind: 'blocked', message: 'Axora was updated. Close its other open tabs to finish loading your history.' });
+});
+
+const getDatabase = async () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(db => {
+      if (!db) {
+        warn({ kind: 'unavailable', message: 'Browser storage is unavailable. History will not be kept after this tab closes.' });
+      }
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+const toBlob = (attachment: Attachment): Blob => new Blob([attachmentBytes(attachment)], {
+  type: attachment.data.startsWith('data:') ? dataUrlMimeType(attachment.data) : attachment.type
+});
+
+const fromBlob = (blob: Blob, dataUrl: boolean) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = reader.result as string;
+    resolve(dataUrl ? result : result.slice(result.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const blobId = (sessionId: string, messageId: string, index: number) => `${sessionId}/${messageId}/${index}`;
+
+// Blob IDs start with the session ID, so a session's blobs form one key range
+const sessionBlobRange = (sessionId: string) => IDBKeyRange.bound(`${sessionId}/`, `${sessionId}/\uffff`);
+const messageBlobRange = (sessionId: string, messageId: string) =>
+  IDBKeyRange.bound(`${sessionId}/${messageId}/`, `${sessionId}/${messageId}/\uffff`);
+
+const toSessionRecord = ({ messages, branches, ...session }: ChatSession): SessionRecord => ({
+  ...session,
+  messageIds: messages.map(m => m.id),
+  ...(branches?.length && { branchIds: branches.map(m => m.id) })
+});
+
+/**
+ * Splits a message into its stored record and the blobs of its (non-empty) attachments.
+ */
+const toMessageRecord = (sessionId: string, message: Message): { record: MessageRecord; blobs: BlobRecord[] } => {
+  const blobs: BlobRecord[] = [];
+  const attachments = message.attachments?.map((attachment, index) => {
+    const { data, ...rest } = attachment;
+    const id = blobId(sessionId, message.id, index);
+    if (data) blobs.push({ id, blob: toBlob(attachment) });
+    return { ...rest, blobId: id, dataUrl: data.startsWith('data:') };
+  });
+  return { record: { ...message, sessionId, attachments }, blobs };
+};
+
+function importLegacyHistory(tx: IDBTransaction) {
+  let sessions: ChatSession[] = [];
+  try {
+    const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+    sessions = raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to read legacy history, skipping import:", e);
+    return;
+  }
+
+  // A throw here would abort the upgrade on every load, so malformed sessions are skipped. Records
+  // are built before writing so a skipped session leaves nothing behind.
+  let skipped = 0;
+  for (const session of sessions) {
+    let records: { record: MessageRecord; blobs: BlobRecord[] }[];
+    try {
+      records = [...session.messages, ...(session.branches || [])].map(message => toMessageRecord(session.id, message));
+      tx.objectStore('sessions').put(toSessionRecord(session));
+    } catch (e) {
+      console.error(`Skipped legacy session ${session?.id} during import:`, e);
+      skipped++;
+      continue;
+    }
+    for (const { record, blobs } of records) {
+      tx.objectStore('messages').put(record);
+      blobs.forEach(blob => tx.objectStore('attachments').put(blob));
+    }
+  }
+  // Keep the legacy copy when anything was skipped so it can still be recovered by hand
+  legacyImported = sessions.length > 0 && skipped === 0;
+}
+
+/**
+ * Runs a write transaction and resolves whether it committed. Quota failures raise a warning instead of failing silently.
+ */
+const write = async (run: (tx: IDBTransaction) => void): Promise<boolean> => {
+  const db = await getDatabase();
+  if (!db) return false;
+
+  const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readwrite');
+  try {
+    run(tx);
+  } catch (e) {
+    console.error("Failed to queue history write:", e);
+    tx.abort();
+  }
+  const committed = await new Promise<boolean>((resolve) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onabort = () => {
+      if (isQuotaError(tx.error)) {
+        warn({ kind: 'quota', message: 'Storage is full. Recent messages were not saved. Delete old sessions or large images to free space.' });
+      } else {
+        console.error("Failed to save history:", tx.error);
+      }
+      resolve(false);
+    };
+  });
+  await checkUsage();
+  return committed;
+};
+
+/**
+ * Warns once usage passes NEARLY_FULL_RATIO of the browser's quota for this origin.
+ */
+const checkUsage = async () => {
+  if (warnedNearlyFull || !navigator.storage?.estimate) return;
+  const { usage, quota } = await navigator.storage.estimate().catch(() => ({ usage: undefined, quota: undefined }));
+  if (usage !== undefined && quota && usage / quota > NEARLY_FULL_RATIO) {
+    warnedNearlyFull = true;
+    warn({ kind: 'nearly_full', message: `Storage is ${Math.round((usage / quota) * 100)}% full. Delete old sessions to keep history saving.` });
+  }
+};
+
+/**
+ * Reads every stored session with its messages (active and inactive branches) and attachments.
+ */
+export const readAllSessions = async (): Promise<ChatSession[]> => {
+  const db = await getDatabase();
+  if (!db) return [];
+
+  const tx = db.transaction(['sessions', 'messages', 'attachments'], 'readonly');
+  const [sessionRecords, messageRecords, blobRecords] = await Promise.all([
+    requestToPromise<SessionRecord[]>(tx.objectStore('sessions').getAll()),
+    requestToPromise<MessageRecord[]>(tx.objectStore('messages').getAll()),
+    requestToPromise<BlobRecord[]>(tx.objectStore('attachments').getAll())
+  ]);
+
+  const blobs = new Map(blobRecords.map(b => [b.id, b.blob]));
+  const messages = new Map<string, Message>();
+  await Promise.all(messageRecords.map(async ({ sessionId, attachments, ...message }) => {
+    const restored = attachments && await Promise.all(attachments.map(async ({ blobId, dataUrl, ...rest }) => {
+      const blob = blobs.get(blobId);
+      return { ...rest, data: blob ? await fromBlob(blob, dataUrl) : '' };
+    }));
+    messages.set(`${sessionId}/${message.id}`, { ...message, ...(restored && { attachments: restored }) });
+  }));
+
+  const resolve = (sessionId: string, ids: string[]) =>
+    ids.map(id => messages.get(`${sessionId}/${id}`)).filter((m): m is Message => !!m);
+
+  return sessionRecords.map(({ messageIds, branchIds, ...session }) => ({
+    ...session,
+    messages: resolve(session.id, messageIds),
+    ...(branchIds && { branches: resolve(session.id, branchIds) })
+  }));
+};
+
+/**
+ * Writes a session's metadata plus only the given messages, and deletes removed messages with their blobs.
+ */
+export const writeSession = (session: ChatSession, changed: Message[], removedIds: string[]) => write(tx => {
+  tx.objectStore('sessions').put(toSessionRecord(session));
+  for (const id of removedIds) {
+    tx.objectStore('messages').delete([session.id, id]);
+    tx.objectStore('attachments').delete(messageBlobRange(session.id, id));
+  }
+  for (const message of changed) {
+    const { record, blobs } = toMessageRecord(session.id, message);
+    tx.objectStore('messages').put(record);
+    tx.objectStore('attachments').delete(messageBlobRange(session.id, message.id));
+    blobs.forEach(blob => tx.objectStore('attachments').put(blob));
+  }
+});
+
+/**
+ * Deletes sessions with all their messages and attachment blobs.
+ */
+export const removeSessions = (ids: string[]) => write(tx => {
+  for (const id of ids) {
+    tx.objectStore('sessions').delete(id);
+    tx.objectStore('messages').delete(IDBKeyRange.bound([id], [id, []]));
+    tx.objectStore('attachments').delete(sessionBlobRange(id));
+  }
+});
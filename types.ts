@@ -11,10 +11,41 @@ export enum MessageType {
   ERROR = 'error'
 }
 
+export enum ProviderErrorKind {
+  AUTH = 'auth',
+  RATE_LIMIT = 'rate_limit', // Rate limit or quota exhausted
+  SAFETY = 'safety',
+  NETWORK = 'network', // Unreachable, timed out or temporarily unavailable
+  INVALID_REQUEST = 'invalid_request',
+  UNKNOWN = 'unknown'
+}
+
+// Serializable description of a failed turn, stored on MessageType.ERROR messages
+export interface ProviderErrorInfo {
+  kind: ProviderErrorKind;
+  provider: APIProvider;
+  message: string;
+  status?: number;
+  retryable: boolean;
+}
+
 export interface Attachment {
   type: string;
-  data: string; // base64
+  data: string; // base64 (generated images: full data URL)
   name: string;
+  size?: number; // bytes
+  text?: string; // Extracted text for text/PDF files
+}
+
+// Position of an active-branch message among its alternatives (messages with the same parent)
+export interface BranchPoint {
+  index: number;
+  siblingIds: string[]; // Oldest first
+}
+
+export interface StorageWarning {
+  kind: 'quota' | 'nearly_full' | 'unavailable' | 'blocked' | 'outdated';
+  message: string;
 }
 
 export interface Message {
@@ -25,6 +56,40 @@ export interface Message {
   timestamp: number;
   attachments?: Attachment[];
   groundingMetadata?: any; // For search results
+  reasoning?: string; // Chain-of-thought trace from reasoning models (e.g. DeepSeek R1)
+  interrupted?: boolean; // Generation was stopped by the user; content is partial
+  error?: ProviderErrorInfo; // Set on MessageType.ERROR messages
+  memoryVersion?: number; // Project memory version the reply was generated with
+  recalled?: RetrievedExcerpt[]; // Past-session excerpts added to the prompt for this reply
+  knowledge?: KnowledgeHit[]; // Project document chunks added to the prompt, cited as [K1], [K2]...
+  prompt?: PromptSnapshot; // Exact request the reply was generated from
+  parentId?: string; // Previous message in its branch; unset on the first message (and on legacy linear sessions)
+}
+
+// Inputs of one model request, kept on the reply so the prompt can be inspected later
+export interface PromptSnapshot {
+  provider: APIProvider;
+  operation: ProviderOperation;
+  model: ModelSettings;
+  imageSettings?: ImageSettings;
+  researchSettings?: Partial<ResearchSettings>;
+  systemInstruction: string;
+  historyMessageIds: string[]; // Messages sent as history, after failed turns and compacted turns were dropped
+  prompt: string;
+  attachments: { name: string; type: string; size?: number }[];
+  tokens: { label: string; tokens: number }[]; // Estimated tokens per section
+  contextWindow: number;
+}
+
+// Passage from another session of the same project, recalled for the current prompt
+export interface RetrievedExcerpt {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: Role;
+  timestamp: number;
+  text: string;
+  score: number;
 }
 
 export enum ModeType {
@@ -45,6 +110,93 @@ export enum APIProvider {
 export interface ImageSettings {
   aspectRatio: '1:1' | '16:9' | '4:3' | '3:4' | '9:16';
   format: 'image/png' | 'image/jpeg' | 'image/webp';
+  quality?: number; // 0-1, for JPEG and WebP output
+  model?: string; // Fal.ai model id, defaults to the Mode's model
+  numImages?: number;
+  seed?: number;
+  guidanceScale?: number;
+}
+
+export interface FalModel {
+  id: string;
+  label: string;
+  sizeParam: 'image_size' | 'aspect_ratio';
+  supportsGuidance: boolean;
+  edit?: { // Endpoint used when input images are attached
+    endpoint: string;
+    imageParam: 'image_urls' | 'image_url';
+  };
+}
+
+// Typed structured data per mode. Stored with `schemaVersion` so older shapes can be migrated.
+export interface GeneralData {
+  schemaVersion: number;
+  notes: string[];
+}
+
+export type SectionStatus = 'todo' | 'draft' | 'final';
+
+export interface LandingPageData {
+  schemaVersion: number;
+  audience?: string;
+  primaryCta?: string;
+  sections: {
+    kind: 'hero' | 'problem' | 'features' | 'social_proof' | 'pricing' | 'faq' | 'cta' | 'custom';
+    headline: string;
+    copy?: string;
+    status: SectionStatus;
+  }[];
+}
+
+export type ChapterStatus = 'planned' | 'drafting' | 'review' | 'done';
+
+export interface EbookData {
+  schemaVersion: number;
+  title?: string;
+  outline: {
+    title: string;
+    status: ChapterStatus;
+    summary?: string;
+    wordCount?: number;
+  }[];
+}
+
+export interface StyleGuideData {
+  schemaVersion: number;
+  palette: string[]; // Hex colors
+  mood?: string;
+  typography?: string;
+  keywords: string[];
+  avoid: string[];
+}
+
+export interface MarketResearchData {
+  schemaVersion: number;
+  competitors: {
+    name: string;
+    url?: string;
+    positioning?: string;
+    pricing?: string;
+    strengths?: string[];
+    weaknesses?: string[];
+  }[];
+}
+
+export interface ModeDataMap {
+  [ModeType.GENERAL]: GeneralData;
+  [ModeType.LANDING_PAGE]: LandingPageData;
+  [ModeType.EBOOK]: EbookData;
+  [ModeType.IMAGE_GEN]: StyleGuideData;
+  [ModeType.MARKET_RESEARCH]: MarketResearchData;
+}
+
+export type ModeData = ModeDataMap[ModeType];
+
+export interface ModeMemory<M extends ModeType = ModeType> {
+  lastState?: string;
+  specificInstructions?: string;
+  facts?: Record<string, string>; // Private key facts; can be promoted to sharedContext.keyFacts
+  data?: ModeDataMap[M];
 }
 
 // Structural Memory Interfaces
@@ -55,11 +207,75 @@ export interface ProjectMemory {
     keyFacts: Record<string, string>;
   };
   // Context private to specific modes
-  modeContext: Partial<Record<ModeType, {
-    lastState?: string;
-    specificInstructions?: string;
-    data?: any;
-  }>>;
+  modeContext: { [M in ModeType]?: ModeMemory<M> };
+  // Sharing rules: reader mode -> modes whose private facts, data and state it may also read
+  sharing?: Partial<Record<ModeType, ModeType[]>>;
+}
+
+// Project and memory version a proposal was extracted against; it is stale once either differs
+export interface MemoryProposalSource {
+  projectId: string;
+  memoryVersion: number;
+}
+
+// A single change to ProjectMemory suggested by automatic extraction, reviewed before commit
+export type MemoryProposal = MemoryProposalSource & (
+  | { id: string; kind: 'summary'; before: string; after: string }
+  | { id: string; kind: 'keyFact'; key: string; before?: string; after: string | null } // null = remove
+  | { id: string; kind: 'lastState'; mode: ModeType; before?: string; after: string }
+  | { id: string; kind: 'data'; mode: ModeType; path: string; before?: any; after: any } // path = top-level data key
+);
+
+export type MemoryAuthor = 'user' | 'auto_extraction' | 'import';
+
+// Snapshot of ProjectMemory taken after each change
+export interface MemoryVersion {
+  version: number;
+  memory: ProjectMemory;
+  author: MemoryAuthor;
+  reason: string;
+  timestamp: number;
+}
+
+// One differing entry between two memory versions, keyed by a readable label
+export interface MemoryChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+// 'shared' documents are retrieved in every mode; otherwise only in the given mode
+export type KnowledgeScope = 'shared' | ModeType;
+
+// Document uploaded to a project, stored as text chunks for retrieval
+export interface KnowledgeDocument {
+  id: string;
+  projectId: string;
+  name: string;
+  type: string;
+  size: number;
+  scope: KnowledgeScope;
+  addedAt: number;
+  chunks: string[];
+}
+
+// Chunk of a knowledge document retrieved for a turn
+export interface KnowledgeHit {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  text: string;
+  score: number;
+}
+
+// Web research configuration (Tavily)
+export interface ResearchSettings {
+  searchDepth: 'basic' | 'advanced';
+  maxResults: number;
+  maxQueries: number;
+  extractTopResults: number; // Fetch full page content for the N best hits (0 = snippets only)
+  includeDomains: string[];
+  excludeDomains: string[];
 }
 
 export interface Project {
@@ -67,6 +283,23 @@ export interface Project {
   name: string;
   description: string;
   memory: ProjectMemory;
+  memoryHistory?: MemoryVersion[]; // Oldest first; the last entry matches `memory`
+  researchSettings?: Partial<ResearchSettings>;
+  autoExtractMemory?: boolean; // Propose memory updates after every model turn
+  retention?: Partial<RetentionSettings>; // How long this project's sessions are kept (see DEFAULT_RETENTION)
+  archived?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export type Capability = 'text' | 'image' | 'search';
+
+// Model configuration a Mode hands to its provider adapter
+export interface ModelSettings {
+  model: string;
+  contextWindow?: number; // Input token limit of the model
+  temperature?: number;
+  thinkingBudget?: number;
 }
 
 export interface Mode {
@@ -74,15 +307,152 @@ export interface Mode {
   name: string;
   description: string;
   systemPrompt: string;
+  provider: APIProvider; // Key into the provider registry
+  model: ModelSettings;
+  capabilities: Capability[];
+}
+
+// Provider Adapter Interfaces
+export interface ProviderRequest {
+  history: Message[];
+  systemInstruction: string;
+  prompt: string;
+  attachments: Attachment[];
+  model: ModelSettings;
+  imageSettings?: ImageSettings;
+  researchSettings?: Partial<ResearchSettings>;
+  onProgress?: (status: string) => void; // Status updates for long-running jobs
+  onChunk?: (partial: StreamChunk) => void; // Accumulated output so far, for streaming providers
+  signal?: AbortSignal;
+}
+
+export interface StreamChunk {
+  text: string;
+  reasoning?: string;
+}
+
+export interface ProviderResponse {
+  text: string;
+  images?: string[];
+  groundingMetadata?: any;
+  reasoning?: string;
+  interrupted?: boolean;
+}
+
+export type ProviderOperation = 'generateText' | 'generateImage' | 'search';
+
+// live: real backends, mock: deterministic offline output,
+// record: real backends + save fixtures, replay: answer from fixtures only
+export type ProviderMode = 'live' | 'mock' | 'record' | 'replay';
+
+export interface ProviderFixture {
+  key: string;
   provider: APIProvider;
-  capabilities: ('text' | 'image' | 'search')[];
+  operation: ProviderOperation;
+  recordedAt: number;
+  request: {
+    model: ModelSettings;
+    systemInstruction: string;
+    history: { role: Role; content: string }[];
+    prompt: string;
+    attachments: { type: string; name: string; hash: string }[];
+    imageSettings?: ImageSettings;
+    researchSettings?: Partial<ResearchSettings>;
+  };
+  response: ProviderResponse;
+}
+
+export interface ProviderAdapter {
+  id: APIProvider;
+  generateText?: (request: ProviderRequest) => Promise<ProviderResponse>;
+  generateImage?: (request: ProviderRequest) => Promise<ProviderResponse>;
+  search?: (request: ProviderRequest) => Promise<ProviderResponse>;
+}
+
+// Older turns folded into a summary to keep the request inside the context window
+export interface ContextCompaction {
+  summary: string; // Empty when the turns were trimmed without a summary
+  throughMessageId: string; // Last message covered by the summary
+  compactedCount: number;
+  method: 'summary' | 'trim';
+  tokensBefore: number;
+  tokensAfter: number;
+  timestamp: number;
+}
+
+export interface ContextUsage {
+  systemTokens: number;
+  historyTokens: number;
+  attachmentTokens: number;
+  totalTokens: number;
+  contextWindow: number;
+  ratio: number; // totalTokens / contextWindow, capped at 1
+}
+
+// 'days': every session expires N days after its last change
+// 'unpinned': same, but pinned sessions are kept
+export type RetentionPolicy = 'forever' | 'days' | 'unpinned';
+
+export interface RetentionSettings {
+  policy: RetentionPolicy;
+  days: number;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
   lastModified: number;
-  messages: Message[];
+  messages: Message[]; // Active branch, in order; the only messages sent as history
+  branches?: Message[]; // Messages of all inactive branches, linked by parentId
   modeId: ModeType;
   projectId: string | null;
+  compaction?: ContextCompaction;
+  pinned?: boolean;
+  archived?: boolean; // Hidden from the main list and never expires
+  trashedAt?: number; // Set when deleted or expired; restorable until the trash is purged
 }
+
+export interface SessionFilters {
+  query: string;
+  modeId: ModeType | 'all';
+  projectId: string | 'all' | 'none';
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string;   // yyyy-mm-dd, inclusive
+}
+
+export type SessionGrouping = 'none' | 'project' | 'day';
+
+export interface SessionSearchMatch {
+  messageId: string;
+  role: Role;
+  snippet: string;
+}
+
+export interface SessionSearchResult {
+  session: ChatSession;
+  titleMatch: boolean;
+  matches: SessionSearchMatch[]; // Messages containing a search term, in conversation order
+}
+
+export type SessionExportFormat = 'txt' | 'markdown' | 'json' | 'html';
+
+// Lossless JSON export of one or more sessions; re-importable
+export interface SessionArchive {
+  format: 'axora-sessions';
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+}
+
+// Portable export of one project with its sessions. Attachments (incl. generated images) travel inside the messages.
+export interface ProjectBundle {
+  format: 'axora-project-bundle';
+  version: number;
+  exportedAt: number;
+  project: Project;
+  sessions: ChatSession[];
+  knowledge?: KnowledgeDocument[]; // Absent in bundles exported before knowledge documents existed
+}
+
+// 'copy' imports under fresh IDs, 'merge' folds the bundle into the existing project with the same ID
+export type BundleImportStrategy = 'copy' | 'merge';
@@ -1,7 +1,50 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Dev-only endpoint used by AXORA_PROVIDER_MODE=record to write fixtures to /fixtures.
+ */
+const fixtureRecorder = (): Plugin => ({
+  name: 'axora-fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        let fixture: any;
+        try {
+          fixture = JSON.parse(body);
+        } catch {
+          fixture = null;
+        }
+        const key = String(fixture?.key ?? '').replace(/[^a-z0-9]/gi, '');
+        if (!key) {
+          res.statusCode = 400;
+          res.end('Expected a JSON fixture with a key');
+          return;
+        }
+        try {
+          const dir = path.resolve(__dirname, 'fixtures');
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(fixture, null, 2));
+          res.end('ok');
+        } catch (e) {
+          res.statusCode = 500;
+          res.end(String(e));
+        }
+      });
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +52,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), fixtureRecorder()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY),
+        'process.env.DEEPSEEK_BASE_URL': JSON.stringify(env.DEEPSEEK_BASE_URL),
+        'process.env.TAVILY_API_KEY': JSON.stringify(env.TAVILY_API_KEY),
+        'process.env.TAVILY_BASE_URL': JSON.stringify(env.TAVILY_BASE_URL),
+        'process.env.FAL_KEY': JSON.stringify(env.FAL_KEY),
+        'process.env.FAL_QUEUE_URL': JSON.stringify(env.FAL_QUEUE_URL),
+        'process.env.AXORA_PROVIDER_MODE': JSON.stringify(env.AXORA_PROVIDER_MODE)
       },
       resolve: {
         alias: {